@@ -0,0 +1,86 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import App from './App';
+import { createMockProvider, setProvider } from './services/providers';
+import { dataUrlToBlob } from './utils/imageUtils';
+
+// Drives the whole app against the offline mock provider: no network, no API key
+
+const selfie = () => new File([dataUrlToBlob('data:image/png;base64,iVBORw0KGgo=')], 'selfie.png', { type: 'image/png' });
+
+describe('App', () => {
+  beforeEach(() => {
+    setProvider(createMockProvider({ latencyMs: 0 }));
+    // The mock leaves out optional analysis tasks and jsdom has no IndexedDB; both only log
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanup(); // Unmount first so cancelled requests log into the spies
+    setProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('goes from upload through a catalog try-on to shopping results', async () => {
+    const { container } = render(<App />);
+
+    // 1. Upload a selfie
+    fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [selfie()] } });
+    await screen.findByText(/I've got your photo/);
+
+    // 2. Try on a catalog frame
+    fireEvent.click(await screen.findByText('Horizon Aviator'));
+    fireEvent.click(screen.getByRole('button', { name: 'Try On' }));
+    await screen.findByText(/Here's how those frames look on you/, {}, { timeout: 5000 });
+    expect(screen.getByAltText('Generated')).toBeTruthy();
+
+    // 3. Shop the look
+    fireEvent.click(screen.getByRole('button', { name: /Shop Similar Styles/ }));
+    await screen.findByText('Classic Metal Aviator', {}, { timeout: 5000 });
+    // Products link to the grounding source they were found in, not a URL the model wrote
+    expect(screen.getByRole('link', { name: /View at Mock Optics/ }).getAttribute('href')).toBe('https://example.com/mock-optics/classic');
+  }, 15000);
+
+  it('brings a removed photo back with Ctrl+Z and the chat "undo"', async () => {
+    const { container } = render(<App />);
+    fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [selfie()] } });
+    await screen.findByAltText('User');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove photo' }));
+    expect(screen.queryByAltText('User')).toBeNull();
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    await screen.findByAltText('User');
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true, shiftKey: true });
+    expect(screen.queryByAltText('User')).toBeNull();
+
+    const chatInput = screen.getByPlaceholderText(/Type here/);
+    fireEvent.change(chatInput, { target: { value: 'undo' } });
+    fireEvent.keyDown(chatInput, { key: 'Enter' });
+    await screen.findByText(/Undone: Remove photo/);
+    expect(screen.getByAltText('User')).toBeTruthy();
+  });
+
+  it('rewinds the chat with the workspace, keeping the undo request and its reply', async () => {
+    const { container } = render(<App />);
+    fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [selfie()] } });
+    await screen.findByText(/I've got your photo/);
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true });
+    expect(screen.queryByAltText('User')).toBeNull();
+    expect(screen.queryByText(/I've got your photo/)).toBeNull();
+
+    fireEvent.keyDown(window, { key: 'z', ctrlKey: true, shiftKey: true });
+    await screen.findByText(/I've got your photo/);
+
+    const chatInput = screen.getByPlaceholderText(/Type here/);
+    fireEvent.change(chatInput, { target: { value: 'undo' } });
+    fireEvent.keyDown(chatInput, { key: 'Enter' });
+    await screen.findByText(/Undone: Upload photo/);
+    expect(screen.queryByText(/I've got your photo/)).toBeNull();
+    expect(screen.getByText('undo')).toBeTruthy();
+  });
+});
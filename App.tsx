@@ -1,126 +1,995 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, MessageRole, StylistOption, GenerationState } from './types';
-import { generateEyewearImage, chatWithStylist, detectIntent } from './services/geminiService';
+import { ChatMessage, MessageRole, GenerationState, LookVersion, IntentResult, IntentType, Locale, FaceProfile, BatchItem, SessionSummary, SessionSnapshot, CatalogFrame, FrameColorVariant, ProductResult, LensOptions, FaceMeasurement, ReferenceView, DetectedFace, FaceStyleAssignment, GroupEditMode, AppMode, HeadTurnFrame, SizeRange, WorkspaceState } from './types';
+import { editImageRegion, chatWithStylist, shopForLook, classifyIntent, detectIntent, analyzeFace, rateStyle, detectFaces, withFrameAttributes } from './services/geminiService';
 import ComparisonSlider from './components/ComparisonSlider';
 import ImageUploader from './components/ImageUploader';
+import ReferenceViews from './components/ReferenceViews';
+import MaskEditor from './components/MaskEditor';
+import QualityBadge from './components/QualityBadge';
+import { assessLook, generateVerifiedLook, MAX_QUALITY_RETRIES } from './services/qualityGuard';
+import { blendMasked, maskToBlackAndWhite } from './utils/maskUtils';
+import CameraCapture from './components/CameraCapture';
+import VersionTimeline from './components/VersionTimeline';
+import FaceProfileCard from './components/FaceProfileCard';
+import StyleGrid from './components/StyleGrid';
+import { createVersion, getVersionLabel } from './utils/versionTree';
+import { runWithConcurrency } from './utils/concurrency';
+import { createHistory, pushHistory, undoHistory, redoHistory, filterHistory, HistoryStack } from './utils/history';
+import { saveSession, listSessions, loadSession, renameSession, deleteSession } from './services/sessionStore';
+import SessionList from './components/SessionList';
+import ExportMenu from './components/ExportMenu';
+import { CancelledError, InvalidBundleError, toGenerationError } from './services/errors';
+import { loadCatalog, buildFramePrompt, getFrameName } from './services/catalogService';
+import { renderPrompt } from './services/promptRegistry';
+import { urlToJpegDataUrl } from './utils/imageUtils';
+import { buildLensPrompt, estimateLensThickness, DEFAULT_LENS_WIDTH_MM } from './services/lensService';
+import LensPanel from './components/LensPanel';
+import MeasurementTool from './components/MeasurementTool';
+import FaceSelector from './components/FaceSelector';
+import GroupStylePanel from './components/GroupStylePanel';
+import { buildGroupPrompt, getFaceNumber, summarizeAssignments } from './services/groupService';
+import HeadTurnCapture from './components/HeadTurnCapture';
+import TurntableViewer from './components/TurntableViewer';
+import { extractKeyframes, styleKeyframes } from './services/turntableService';
+import { getFrameFit } from './services/measurementService';
+import FrameCatalog from './components/FrameCatalog';
+import ProductResults from './components/ProductResults';
+import MarkdownMessage from './components/MarkdownMessage';
+import WishlistPanel from './components/WishlistPanel';
+import { loadWishlist, saveWishlist, toggleWishlistItem } from './services/wishlistStore';
+import { LOCALES, LocalizedMessage } from './services/i18n';
+import { useI18n } from './components/I18nProvider';
+import { renderBeforeAfterPng, collectLookbookEntries, buildLookbookPdf, buildSessionBundle, parseSessionBundle, downloadBlob, toFileStem } from './services/exportService';
 
 // Constants
-const PRESET_STYLES: StylistOption[] = [
-  { id: 'aviator', label: 'Aviator', icon: '🕶️', prompt: 'wear classic gold rimmed aviator sunglasses' },
-  { id: 'wayfarer', label: 'Classic Wayfarer', icon: '🎸', prompt: 'wear black wayfarer style sunglasses' },
-  { id: 'cat-eye', label: 'Cat Eye', icon: '😺', prompt: 'wear vintage red cat-eye glasses' },
-  { id: 'round', label: 'Intellectual', icon: '🤓', prompt: 'wear thin round wire-rimmed glasses' },
-  { id: 'rimless', label: 'Minimalist', icon: '👓', prompt: 'wear modern rimless rectangular glasses' },
-];
+const CATALOG = loadCatalog();
+
+// Batch try-on limits (3x3 grid, two generations in flight)
+const MAX_BATCH_SIZE = 9;
+const BATCH_CONCURRENCY = 2;
+
+// Image prompt for the sidebar reference glasses, in English like the prompt templates
+const REFERENCE_TRY_ON_PROMPT = 'wear the glasses shown in the reference image';
+
+// Autosave debounce
+const SESSION_SAVE_DELAY_MS = 1000;
+
+const cleanBase64 = (dataUrl: string) => dataUrl.split(',')[1];
 
 const App: React.FC = () => {
+  const { t, plural, locale, dir, setLocale, stylistLocale } = useI18n();
+
   // State: Images
   const [userImage, setUserImage] = useState<string | null>(null);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [referenceImage, setReferenceImage] = useState<string | null>(null);
+  // Up to three cleaned views of the glasses to try on; the first is the primary one
+  const [referenceViews, setReferenceViews] = useState<ReferenceView[]>([]);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+
+  // State: Look versions (a tree; null ids refer to the original photo)
+  const [versions, setVersions] = useState<LookVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+
+  // State: Batch comparison grid
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [batchSelection, setBatchSelection] = useState<string[]>([]);
+  const [includeReferenceInBatch, setIncludeReferenceInBatch] = useState(false);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [viewMode, setViewMode] = useState<'single' | 'grid'>('single');
+
+  // State: 360° try-on from a head-turn clip
+  const [appMode, setAppMode] = useState<AppMode>(AppMode.UPLOAD);
+  const [headTurnFrames, setHeadTurnFrames] = useState<HeadTurnFrame[] | null>(null);
+
+  // State: Painting a mask over the selected look for a region edit
+  const [isMaskEditing, setIsMaskEditing] = useState(false);
+
+  // State: Persistent sessions
+  const [session, setSession] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
+
+  // State: Undo/redo of photo, reference, look and selection changes
+  const [history, setHistory] = useState<HistoryStack<WorkspaceState>>(createHistory);
+
+  // State: Face analysis
+  const [faceProfile, setFaceProfile] = useState<FaceProfile | null>(null);
+  const [isAnalyzingFace, setIsAnalyzingFace] = useState(false);
+  const [faceAnalysisError, setFaceAnalysisError] = useState<string | null>(null);
+
+  // State: PD & frame size measurement
+  const [measurement, setMeasurement] = useState<FaceMeasurement | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+
+  // State: Faces in a group photo, and which of them edits should target
+  const [faces, setFaces] = useState<DetectedFace[]>([]);
+  const [selectedFaceIds, setSelectedFaceIds] = useState<string[]>([]);
+
+  // State: Saved shopping results
+  const [wishlist, setWishlist] = useState<ProductResult[]>(loadWishlist);
 
   // State: Chat & Process
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState('');
   const [generationState, setGenerationState] = useState<GenerationState>({ isGenerating: false, progress: '' });
+  // The stylist's reply as it streams in; added to the history once complete
+  const [streamingReply, setStreamingReply] = useState<{ text: string; status: string } | null>(null);
   
   // Refs
   const chatEndRef = useRef<HTMLDivElement>(null);
+  // Aborts the in-flight request from the loading overlay's Cancel button
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Aborts the streaming stylist reply from its Stop button
+  const replyAbortRef = useRef<AbortController | null>(null);
+  // Face profile restored with a session, so we don't pay to analyze the same photo again
+  const restoredProfileRef = useRef<FaceProfile | null>(null);
+
+  // Derived: the selected look is what edits apply to; the compare look is the slider baseline
+  const generatedImage = versions.find(v => v.id === selectedVersionId)?.image ?? null;
+  const compareImage = versions.find(v => v.id === compareVersionId)?.image ?? userImage;
+  const referenceImage = referenceViews[0]?.image ?? null;
+  const isBusy = generationState.isGenerating || isBatchRunning;
+  // Chat replies don't block the rest of the UI, only further chat until they finish
+  const isReplying = streamingReply !== null;
+  const isGroupPhoto = faces.length > 1;
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
+  const selectedVersion = versions.find(v => v.id === selectedVersionId) ?? null;
+  const rateFrame = (frame: CatalogFrame) => rateStyle(faceProfile, frame.shape);
+  const formatRange = (range: SizeRange) => t('units.mmRange', { min: range.min, max: range.max });
+  const faceLabel = (faceId: string) => t('face.person', { number: getFaceNumber(faces, faceId) });
+  const translateMessage = (message: LocalizedMessage) => t(message.key, message.variables);
+  const formatIssues = (issues: LocalizedMessage[]) => [...new Set(issues.map(translateMessage))].join('; ');
+  const currentFrame = CATALOG.find(f => f.sku === versions.find(v => v.id === selectedVersionId)?.frameSku) ?? null;
+
+  // The workspace as undo/redo sees it; refs keep async handlers and key presses on the latest one
+  const workspace: WorkspaceState = { session, userImage, referenceViews, versions, selectedVersionId, compareVersionId, faceProfile, measurement, chatHistory };
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+  // Bumped by every undo/redo, so a batch still running can tell its workspace was swapped out
+  const workspaceEpochRef = useRef(0);
+  const historyRef = useRef(history);
+  historyRef.current = history;
 
   // Effects
+  useEffect(() => {
+    saveWishlist(wishlist);
+  }, [wishlist]);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [chatHistory]);
+  }, [chatHistory, streamingReply]);
+
+  // Analyze each new photo once, in the background
+  useEffect(() => {
+    setFaceProfile(restoredProfileRef.current);
+    setFaceAnalysisError(null);
+    if (!userImage || restoredProfileRef.current) {
+      restoredProfileRef.current = null;
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsAnalyzingFace(true);
+    analyzeFace(cleanBase64(userImage), { signal: controller.signal })
+      .then(profile => { if (!controller.signal.aborted) setFaceProfile(profile); })
+      .catch(() => { if (!controller.signal.aborted) setFaceAnalysisError(t('photo.analysisFailed')); })
+      .finally(() => { if (!controller.signal.aborted) setIsAnalyzingFace(false); });
+
+    return () => {
+      controller.abort();
+      setIsAnalyzingFace(false);
+    };
+  }, [userImage]);
+
+  // Look for more than one person in each new photo
+  useEffect(() => {
+    setFaces([]);
+    setSelectedFaceIds([]);
+    if (!userImage) return;
+
+    const controller = new AbortController();
+    detectFaces(cleanBase64(userImage), { signal: controller.signal })
+      .then(found => { if (!controller.signal.aborted) setFaces(found); })
+      .catch(() => {}); // Detection failures already resolve to no faces; this is a cancel
+
+    return () => controller.abort();
+  }, [userImage]);
+
+  const refreshSessions = () => {
+    listSessions().then(setSavedSessions).catch(error => console.error("Error listing sessions:", error));
+  };
+
+  useEffect(refreshSessions, []);
+
+  const buildSnapshot = (): SessionSnapshot | null => {
+    if (!session || !userImage) return null;
+    return {
+      ...session,
+      updatedAt: Date.now(),
+      userImage,
+      referenceImage,
+      referenceViews,
+      versions,
+      selectedVersionId,
+      compareVersionId,
+      chatHistory,
+      faceProfile,
+      measurement
+    };
+  };
+
+  // Autosave the active session whenever its content changes
+  useEffect(() => {
+    const snapshot = buildSnapshot();
+    if (!snapshot) return;
+
+    const timer = setTimeout(() => {
+      saveSession(snapshot)
+        .then(refreshSessions)
+        .catch(error => console.error("Error saving session:", error));
+    }, SESSION_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [session, userImage, referenceViews, versions, selectedVersionId, compareVersionId, chatHistory, faceProfile, measurement]);
 
   // Handlers
+
+  // --- Undo / redo ---
+
+  /**
+   * Remembers the workspace as it is now, before a change labelled `label` is applied.
+   */
+  const recordHistory = (label: string) => {
+    const state = workspaceRef.current;
+    setHistory(prev => pushHistory(prev, { label, state }));
+  };
+
+  const recordNewLook = (version: LookVersion) => {
+    recordHistory(t('history.newLook', { label: getVersionLabel([...workspaceRef.current.versions, version], version.id) }));
+  };
+
+  /**
+   * Puts a remembered workspace back. On the same photo, looks generated since then stay in
+   * the timeline (just unselected), so undo never throws away a paid generation.
+   */
+  const restoreWorkspace = (state: WorkspaceState) => {
+    workspaceEpochRef.current++;
+    const current = workspaceRef.current;
+    const isSamePhoto = state.userImage === current.userImage;
+    const laterVersions = isSamePhoto ? current.versions.filter(v => !state.versions.some(old => old.id === v.id)) : [];
+    if (!isSamePhoto) {
+      // The profile comes back with the photo instead of being analyzed (and paid for) again
+      restoredProfileRef.current = state.faceProfile;
+      resetVersions();
+    }
+    setSession(state.session);
+    setUserImage(state.userImage);
+    setReferenceViews(state.referenceViews);
+    setVersions([...state.versions, ...laterVersions]);
+    setSelectedVersionId(state.selectedVersionId);
+    setCompareVersionId(state.compareVersionId);
+    setMeasurement(state.measurement);
+    setChatHistory(state.chatHistory);
+    setIsCameraOpen(false);
+  };
+
+  // Both return the label of the change they reversed or re-applied, or null if there was none
+  const handleUndo = (): string | null => {
+    const step = undoHistory(historyRef.current, workspaceRef.current);
+    if (!step) return null;
+    setHistory(step.history);
+    restoreWorkspace(step.entry.state);
+    return step.entry.label;
+  };
+
+  const handleRedo = (): string | null => {
+    const step = redoHistory(historyRef.current, workspaceRef.current);
+    if (!step) return null;
+    setHistory(step.history);
+    restoreWorkspace(step.entry.state);
+    return step.entry.label;
+  };
+
+  /**
+   * Undoes or redoes from the chat. The restored chat may predate `command`, the message that
+   * asked for it, so that goes back in ahead of the reply.
+   */
+  const replyToHistoryCommand = (intent: 'UNDO' | 'REDO', command: ChatMessage) => {
+    const label = intent === 'UNDO' ? handleUndo() : handleRedo();
+    const text = !label
+      ? t(intent === 'UNDO' ? 'history.emptyUndo' : 'history.emptyRedo')
+      : t(intent === 'UNDO' ? 'history.undone' : 'history.redone', { label });
+    setChatHistory(prev => [
+      ...prev,
+      ...(prev.includes(command) ? [] : [command]),
+      { role: MessageRole.MODEL, text, timestamp: Date.now() }
+    ]);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isBusy) return;
+      if (e.target instanceof Element && e.target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [isBusy]);
+
   const handleUserImageUpload = (base64: string) => {
+    recordHistory(t(userImage ? 'history.replacePhoto' : 'history.uploadPhoto'));
+    setIsCameraOpen(false);
     setUserImage(base64);
-    setGeneratedImage(null); // Reset generation
+    setMeasurement(null);
+    setSession({
+      id: crypto.randomUUID(),
+      name: t('sessions.defaultName', { date: new Date().toLocaleDateString(locale, { month: 'short', day: 'numeric' }) }),
+      createdAt: Date.now()
+    });
+    resetVersions();
     setChatHistory([{
       role: MessageRole.MODEL,
-      text: "Great! I've got your photo. Choose a style below, upload a reference image of glasses you like, or just tell me what to try on!",
+      text: t('reply.photoReceived'),
       timestamp: Date.now()
     }]);
   };
 
-  const handleReferenceImageUpload = (base64: string) => {
-    setReferenceImage(base64);
-    handleSendMessage(`I've uploaded a picture of some glasses. Can I try them on?`, base64);
+  const resetVersions = () => {
+    setVersions([]);
+    setSelectedVersionId(null);
+    setCompareVersionId(null);
+    setBatchItems([]);
+    setViewMode('single');
+    setHeadTurnFrames(null);
   };
 
-  const handleStyleSelect = (style: StylistOption) => {
-    handleSendMessage(`Can I try on ${style.label} glasses?`);
+  const handleRemovePhoto = () => {
+    recordHistory(t('history.removePhoto'));
+    setUserImage(null);
+    setSession(null);
+    setMeasurement(null);
+    resetVersions();
   };
 
-  const cleanBase64 = (dataUrl: string) => dataUrl.split(',')[1];
+  const handleReferenceChange = (views: ReferenceView[]) => {
+    recordHistory(t(views.length < referenceViews.length ? 'history.removeReference' : 'history.changeReference'));
+    setReferenceViews(views);
+  };
+
+  const handleNewSession = () => {
+    if (userImage) recordHistory(t('history.newSession'));
+    clearWorkspace();
+  };
+
+  const clearWorkspace = () => {
+    setSession(null);
+    setUserImage(null);
+    setReferenceViews([]);
+    setMeasurement(null);
+    setChatHistory([]);
+    setIsCameraOpen(false);
+    resetVersions();
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const snapshot = await loadSession(id);
+      if (!snapshot) {
+        refreshSessions();
+        return;
+      }
+      // The analysis effect only re-runs when the photo actually changes
+      if (snapshot.userImage === userImage) {
+        setFaceProfile(snapshot.faceProfile);
+      } else {
+        restoredProfileRef.current = snapshot.faceProfile;
+      }
+      recordHistory(t('history.openSession', { name: snapshot.name }));
+      setSession({ id: snapshot.id, name: snapshot.name, createdAt: snapshot.createdAt });
+      setUserImage(snapshot.userImage);
+      // Sessions saved before multi-view references only have the one image
+      setReferenceViews(snapshot.referenceViews ?? (snapshot.referenceImage ? [{ view: 'front', image: snapshot.referenceImage }] : []));
+      resetVersions();
+      setVersions(snapshot.versions);
+      setSelectedVersionId(snapshot.selectedVersionId);
+      setCompareVersionId(snapshot.compareVersionId);
+      setChatHistory(snapshot.chatHistory);
+      setMeasurement(snapshot.measurement ?? null);
+      setIsCameraOpen(false);
+    } catch (error) {
+      console.error("Error loading session:", error);
+      window.alert(t('alert.sessionOpenFailed'));
+    }
+  };
 
-  const handleSendMessage = async (text: string = inputMessage, overrideRefImage: string | null = null) => {
+  const handleRenameSession = async (id: string, name: string) => {
+    if (session?.id === id) setSession({ ...session, name });
+    await renameSession(id, name).catch(error => console.error("Error renaming session:", error));
+    refreshSessions();
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    // Not undoable: a restored state would bring the session back through the autosave
+    if (session?.id === id) clearWorkspace();
+    setHistory(prev => filterHistory(prev, (state: WorkspaceState) => state.session?.id !== id));
+    await deleteSession(id).catch(error => console.error("Error deleting session:", error));
+    refreshSessions();
+  };
+
+  const handleImportBundle = async (file: File) => {
+    try {
+      const imported = parseSessionBundle(await file.text());
+      // A fresh id, so importing never overwrites a session already on this device
+      const snapshot = { ...imported, id: crypto.randomUUID(), updatedAt: Date.now() };
+      await saveSession(snapshot);
+      refreshSessions();
+      await handleOpenSession(snapshot.id);
+    } catch (error) {
+      console.error("Error importing session:", error);
+      window.alert(error instanceof InvalidBundleError ? translateMessage(error.userMessage) : t('alert.importFailed'));
+    }
+  };
+
+  const exportStem = toFileStem(session?.name || 'visionary-look');
+
+  const handleExportImage = async () => {
+    if (!generatedImage || !compareImage) return;
+    try {
+      const blob = await renderBeforeAfterPng(compareImage, generatedImage, {
+        before: compareVersionId ? t('export.look', { label: getVersionLabel(versions, compareVersionId).toUpperCase() }) : t('export.before'),
+        after: t('export.look', { label: getVersionLabel(versions, selectedVersionId).toUpperCase() })
+      });
+      downloadBlob(blob, `${exportStem}-before-after.png`);
+    } catch (error) {
+      console.error("Error exporting image:", error);
+      window.alert(t('alert.imageExportFailed'));
+    }
+  };
+
+  const handleExportLookbook = async () => {
+    try {
+      const entries = collectLookbookEntries(
+        versions,
+        chatHistory,
+        id => t('export.lookbookEntry', { label: getVersionLabel(versions, id) }),
+        version => (version.label ? translateMessage(version.label) : version.prompt)
+      );
+      const blob = await buildLookbookPdf(entries, session?.name || 'VisionaryAI', {
+        heading: t('export.pdfHeading'),
+        summary: t('export.pdfSummary', { looks: plural('export.starredLooks', entries.length), date: new Date().toLocaleDateString(locale) }),
+        prompt: t('export.pdfPrompt'),
+        notes: t('export.pdfNotes'),
+        shop: t('export.pdfShop')
+      }, dir);
+      downloadBlob(blob, `${exportStem}-lookbook.pdf`);
+    } catch (error) {
+      console.error("Error exporting lookbook:", error);
+      window.alert(t('alert.lookbookExportFailed'));
+    }
+  };
+
+  const handleExportBundle = () => {
+    const snapshot = buildSnapshot();
+    if (!snapshot) return;
+    downloadBlob(buildSessionBundle(snapshot), `${exportStem}.visionary.json`);
+  };
+
+  const handleSelectVersion = (id: string | null) => {
+    if (id === selectedVersionId) return;
+    recordHistory(id ? t('history.selectLook', { label: getVersionLabel(versions, id) }) : t('history.selectOriginal'));
+    setSelectedVersionId(id);
+    // Comparing a look against itself is meaningless; fall back to the original
+    if (id === compareVersionId) setCompareVersionId(null);
+  };
+
+  const handleExpandLook = (id: string | null) => {
+    handleSelectVersion(id);
+    setViewMode('single');
+  };
+
+  const handleToggleStar = (id: string) => {
+    const label = getVersionLabel(versions, id);
+    recordHistory(t(versions.find(v => v.id === id)?.starred ? 'history.unstarLook' : 'history.starLook', { label }));
+    setVersions(prev => prev.map(v => (v.id === id ? { ...v, starred: !v.starred } : v)));
+  };
+
+  const handleRemoveBatchItem = (itemId: string) => {
+    const remaining = batchItems.filter(item => item.id !== itemId);
+    setBatchItems(remaining);
+    if (remaining.length === 0) setViewMode('single');
+  };
+
+  const toggleBatchSelection = (sku: string) => {
+    setBatchSelection(prev => (prev.includes(sku) ? prev.filter(id => id !== sku) : [...prev, sku]));
+  };
+
+  const handleGenerateBatch = async () => {
+    if (!userImage) return;
+
+    let frameItems: BatchItem[];
+    try {
+      // Product shots go along as references, so each look maps to a real SKU
+      frameItems = await Promise.all(
+        CATALOG
+          .filter(frame => batchSelection.includes(frame.sku))
+          .map(async (frame): Promise<BatchItem> => ({
+            id: crypto.randomUUID(),
+            label: { key: 'look.frameTryOn', variables: { frame: getFrameName(frame), color: frame.colors[0].name } },
+            prompt: buildFramePrompt(frame, frame.colors[0]),
+            referenceImage: await urlToJpegDataUrl(frame.imageUrl),
+            frameSku: frame.sku,
+            status: 'pending'
+          }))
+      );
+    } catch (error) {
+      console.error("Error loading product images:", error);
+      setChatHistory(prev => [...prev, { role: MessageRole.MODEL, text: t('reply.catalogLoadFailed'), isError: true, timestamp: Date.now() }]);
+      return;
+    }
+
+    const items: BatchItem[] = [
+      ...frameItems,
+      ...(includeReferenceInBatch && referenceImage
+        ? [{ id: crypto.randomUUID(), label: { key: 'look.referenceTryOn' }, prompt: REFERENCE_TRY_ON_PROMPT, referenceImage, status: 'pending' } as BatchItem]
+        : [])
+    ].slice(0, MAX_BATCH_SIZE);
+    if (items.length === 0) return;
+
+    // One entry for the whole batch, however many looks it ends up adding
+    recordHistory(t('history.batch'));
+    setBatchItems(items);
+    setViewMode('grid');
+    setIsBatchMode(false);
+    setBatchSelection([]);
+    setIsBatchRunning(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const epoch = workspaceEpochRef.current;
+
+    const updateItem = (id: string, patch: Partial<BatchItem>) =>
+      setBatchItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+
+    // Every style starts from the original photo so the looks are comparable
+    const rawUserImage = cleanBase64(userImage);
+    const results = await runWithConcurrency(items, BATCH_CONCURRENCY, async item => {
+      // Looks still queued when the batch is cancelled never start
+      if (controller.signal.aborted) {
+        updateItem(item.id, { status: 'cancelled' });
+        throw new CancelledError();
+      }
+      updateItem(item.id, { status: 'running' });
+      try {
+        const rawRefImage = item.referenceImage ? cleanBase64(item.referenceImage) : undefined;
+        const { image, quality } = await generateVerifiedLook(rawUserImage, item.prompt, rawRefImage ? [{ base64: rawRefImage, view: 'front' }] : [], { signal: controller.signal });
+        // After an undo or redo the look belongs to a workspace that's gone; stop the rest too
+        if (workspaceEpochRef.current !== epoch) {
+          controller.abort();
+          throw new CancelledError();
+        }
+        const version = { ...createVersion(`data:image/jpeg;base64,${image}`, item.prompt, null, item.referenceImage, item.frameSku), label: item.label, quality };
+        setVersions(prev => [...prev, version]);
+        updateItem(item.id, { status: 'done', versionId: version.id });
+      } catch (error) {
+        const generationError = toGenerationError(error);
+        updateItem(item.id, generationError instanceof CancelledError
+          ? { status: 'cancelled' }
+          : { status: 'error', error: generationError.userMessage });
+        throw error;
+      }
+    });
+
+    if (abortControllerRef.current === controller) abortControllerRef.current = null;
+    setIsBatchRunning(false);
+    const succeeded = results.filter(result => result.status === 'fulfilled').length;
+    setChatHistory(prev => [...prev, {
+      role: MessageRole.MODEL,
+      text: controller.signal.aborted
+        ? t('reply.batchCancelled', { succeeded, total: items.length })
+        : succeeded > 0
+          ? t('reply.batchDone', { succeeded, total: items.length })
+          : t('reply.batchFailed'),
+      isError: !controller.signal.aborted && succeeded === 0,
+      timestamp: Date.now()
+    }]);
+  };
+
+  const handleReferenceTryOn = () => {
+    handleSendMessage(plural('request.referenceTryOn', referenceViews.length));
+  };
+
+  const handleFrameTryOn = async (frame: CatalogFrame, variant: FrameColorVariant) => {
+    let productImage: string;
+    try {
+      productImage = await urlToJpegDataUrl(frame.imageUrl);
+    } catch (error) {
+      console.error("Error loading product image:", error);
+      setChatHistory(prev => [...prev, { role: MessageRole.MODEL, text: t('reply.productImageFailed', { frame: getFrameName(frame) }), isError: true, timestamp: Date.now() }]);
+      return;
+    }
+    const names = { frame: getFrameName(frame), color: variant.name };
+    handleSendMessage(t('request.frameTryOn', names), productImage, {
+      modelText: renderPrompt('frame-try-on-message', { frameName: names.frame, colorName: names.color }),
+      editPrompt: buildFramePrompt(frame, variant),
+      label: { key: 'look.frameTryOn', variables: names },
+      frameSku: frame.sku,
+      reply: t('reply.frameTryOn')
+    });
+  };
+
+  const handleLensPreview = (options: LensOptions) => {
+    const thickness = estimateLensThickness(options.prescription, options.index, currentFrame?.lensWidthMm ?? DEFAULT_LENS_WIDTH_MM);
+    handleSendMessage(t('request.lensPreview'), null, {
+      editPrompt: buildLensPrompt(options, thickness),
+      label: { key: 'look.lensPreview' },
+      frameSku: currentFrame?.sku,
+      reply: t('reply.lensPreview', { index: options.index, edge: thickness.edgeMm, center: thickness.centerMm })
+    });
+  };
+
+  const toggleFaceSelection = (faceId: string) => {
+    setSelectedFaceIds(prev => prev.includes(faceId) ? prev.filter(id => id !== faceId) : [...prev, faceId]);
+  };
+
+  const handleGroupTryOn = async (assignments: FaceStyleAssignment[], mode: GroupEditMode) => {
+    if (!userImage) return;
+
+    setChatHistory(prev => [...prev, { role: MessageRole.USER, text: t('request.groupStyle', { summary: summarizeAssignments(assignments, faceLabel) }), timestamp: Date.now(), contextImage: generatedImage || userImage }]);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Sequential edits build on each other, so each person's look is a child of the last
+    const steps = mode === 'sequential' ? assignments.map(a => [a]) : [assignments];
+    let baseImage = generatedImage || userImage;
+    let parentId = selectedVersionId;
+    const driftIssues: LocalizedMessage[] = [];
+
+    try {
+      for (const [i, step] of steps.entries()) {
+        setGenerationState({
+          isGenerating: true,
+          progress: steps.length > 1
+            ? t('progress.groupStep', { person: faceLabel(step[0].faceId), step: i + 1, total: steps.length })
+            : t('progress.groupOnePass')
+        });
+        const groupPrompt = buildGroupPrompt(faces, step);
+        const { image, quality } = await generateVerifiedLook(cleanBase64(baseImage), groupPrompt, [], { signal: controller.signal });
+        baseImage = `data:image/jpeg;base64,${image}`;
+
+        const label: LocalizedMessage = { key: 'look.groupStyle', variables: { summary: summarizeAssignments(step, faceLabel) } };
+        const version = { ...createVersion(baseImage, groupPrompt, parentId), label, quality };
+        parentId = version.id;
+        recordNewLook(version);
+        setVersions(prev => [...prev, version]);
+        setSelectedVersionId(version.id);
+        if (!quality.passed) driftIssues.push(...quality.issues);
+      }
+      setViewMode('single');
+
+      setChatHistory(prev => [...prev, {
+        role: MessageRole.MODEL,
+        text: t(steps.length > 1 ? 'reply.groupSequentialDone' : 'reply.groupDone')
+          + (driftIssues.length ? t('reply.resultDrift', { issues: formatIssues(driftIssues) }) : ''),
+        timestamp: Date.now(),
+        contextImage: baseImage
+      }]);
+    } catch (error) {
+      console.error(error);
+      const generationError = toGenerationError(error);
+      const isCancelled = generationError instanceof CancelledError;
+      setChatHistory(prev => [...prev, {
+        role: MessageRole.MODEL,
+        text: isCancelled ? t('reply.cancelled') : translateMessage(generationError.userMessage),
+        isError: !isCancelled,
+        timestamp: Date.now()
+      }]);
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setGenerationState({ isGenerating: false, progress: '' });
+    }
+  };
+
+  const handleHeadTurnClip = async (clip: Blob, mirrored: boolean) => {
+    setGenerationState({ isGenerating: true, progress: t('progress.findingAngles') });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      setHeadTurnFrames(await extractKeyframes(clip, { signal: controller.signal, mirror: mirrored }));
+    } catch (error) {
+      console.error(error);
+      const generationError = toGenerationError(error);
+      if (!(generationError instanceof CancelledError)) {
+        setChatHistory(prev => [...prev, { role: MessageRole.MODEL, text: translateMessage(generationError.userMessage), isError: true, timestamp: Date.now() }]);
+      }
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setGenerationState({ isGenerating: false, progress: '' });
+    }
+  };
+
+  // Every angle gets the selected look's style, or the sidebar reference if there's no look yet
+  const handleStyleHeadTurn = async () => {
+    if (!headTurnFrames) return;
+
+    const references = selectedVersion
+      ? (selectedVersion.referenceImage ? [{ base64: cleanBase64(selectedVersion.referenceImage), view: 'front' as const }] : [])
+      : referenceViews.map(ref => ({ base64: cleanBase64(ref.image), view: ref.view }));
+    const prompt = selectedVersion?.prompt ?? REFERENCE_TRY_ON_PROMPT;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const styled = await styleKeyframes(headTurnFrames, prompt, references, {
+        signal: controller.signal,
+        onProgress: (done, total) => setGenerationState({
+          isGenerating: true,
+          progress: done === 0 ? t('progress.stylingFront') : t('progress.matchingAngle', { step: Math.min(done + 1, total), total })
+        })
+      });
+      setHeadTurnFrames(styled);
+      const driftIssues = styled.flatMap(frame => frame.quality?.passed === false ? frame.quality.issues : []);
+      setChatHistory(prev => [...prev, {
+        role: MessageRole.MODEL,
+        text: (selectedVersion
+          ? t('reply.turntableLook', { label: getVersionLabel(versions, selectedVersion.id), count: styled.length })
+          : t('reply.turntableReference', { count: styled.length }))
+          + (driftIssues.length ? t('reply.resultDrift', { issues: formatIssues(driftIssues) }) : ''),
+        timestamp: Date.now()
+      }]);
+    } catch (error) {
+      console.error(error);
+      const generationError = toGenerationError(error);
+      const isCancelled = generationError instanceof CancelledError;
+      setChatHistory(prev => [...prev, {
+        role: MessageRole.MODEL,
+        text: isCancelled ? t('reply.cancelled') : translateMessage(generationError.userMessage),
+        isError: !isCancelled,
+        timestamp: Date.now()
+      }]);
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setGenerationState({ isGenerating: false, progress: '' });
+    }
+  };
+
+  const handleRegionEdit = async (mask: HTMLCanvasElement, instruction: string) => {
+    if (!generatedImage) return;
+
+    const baseImage = generatedImage;
+    const baseVersion = versions.find(v => v.id === selectedVersionId);
+    setChatHistory(prev => [...prev, { role: MessageRole.USER, text: t('request.regionEdit', { instruction }), timestamp: Date.now(), contextImage: baseImage }]);
+    setGenerationState({ isGenerating: true, progress: t('progress.regionEdit') });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const editedBase64 = await editImageRegion(cleanBase64(baseImage), cleanBase64(maskToBlackAndWhite(mask)), instruction, { signal: controller.signal });
+      // Only the painted pixels change; the rest stays identical to the look it came from
+      const blended = await blendMasked(baseImage, `data:image/png;base64,${editedBase64}`, mask);
+      const quality = { ...await assessLook(cleanBase64(baseImage), cleanBase64(blended), { signal: controller.signal }), attempts: 1 };
+
+      const label: LocalizedMessage = { key: 'look.regionEdit', variables: { instruction } };
+      const version = { ...createVersion(blended, `Region edit: ${instruction}`, selectedVersionId, baseVersion?.referenceImage, baseVersion?.frameSku), label, quality };
+      recordNewLook(version);
+      setVersions(prev => [...prev, version]);
+      setSelectedVersionId(version.id);
+      setIsMaskEditing(false);
+      setChatHistory(prev => [...prev, {
+        role: MessageRole.MODEL,
+        text: t('reply.regionEditDone') + (quality.passed ? '' : t('reply.resultDrift', { issues: formatIssues(quality.issues) })),
+        timestamp: Date.now(),
+        contextImage: blended
+      }]);
+    } catch (error) {
+      console.error(error);
+      const generationError = toGenerationError(error);
+      const isCancelled = generationError instanceof CancelledError;
+      setChatHistory(prev => [...prev, {
+        role: MessageRole.MODEL,
+        text: isCancelled ? t('reply.cancelled') : translateMessage(generationError.userMessage),
+        isError: !isCancelled,
+        timestamp: Date.now()
+      }]);
+    } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setGenerationState({ isGenerating: false, progress: '' });
+    }
+  };
+
+  const handleSendMessage = async (
+    text: string = inputMessage,
+    overrideRefImage: string | null = null,
+    structuredEdit?: { editPrompt: string; frameSku?: string; reply: string; label?: LocalizedMessage; modelText?: string },
+    forcedIntent?: IntentType // Skips classification, e.g. for buttons whose text is translated
+  ) => {
     if (!text.trim() && !overrideRefImage) return;
 
-    const userMsg: ChatMessage = { role: MessageRole.USER, text, timestamp: Date.now() };
+    // Remember which look this turn is about so the stylist can follow the conversation
+    const lookInView = generatedImage || userImage || undefined;
+    const userMsg: ChatMessage = { role: MessageRole.USER, text, modelText: structuredEdit?.modelText, timestamp: Date.now(), contextImage: lookInView };
     setChatHistory(prev => [...prev, userMsg]);
     setInputMessage('');
 
     if (!userImage) {
-       setChatHistory(prev => [...prev, { role: MessageRole.MODEL, text: "Please upload a photo of yourself first!", timestamp: Date.now() }]);
+       // Undo still works without a photo, which is exactly when a misclick hurts most
+       const { intent } = detectIntent(text);
+       if (intent === 'UNDO' || intent === 'REDO') {
+         replyToHistoryCommand(intent, userMsg);
+         return;
+       }
+       setChatHistory(prev => [...prev, { role: MessageRole.MODEL, text: t('reply.uploadFirst'), timestamp: Date.now() }]);
        return;
     }
 
-    setGenerationState({ isGenerating: true, progress: 'Thinking...' });
+    // Structured edits bring their own reference (or none), never the sidebar upload
+    const currentRefs: ReferenceView[] = overrideRefImage
+      ? [{ view: 'front', image: overrideRefImage }]
+      : structuredEdit ? [] : referenceViews;
+    const isForcedEdit = currentRefs.length > 0 || !!structuredEdit;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    // Image edits take over the screen; chat replies stream into a bubble and can be stopped there
+    let usesOverlay = isForcedEdit;
+    let streamedText = '';
+    const showReplyStatus = (status: string) => setStreamingReply({ text: streamedText, status });
+    const onText = (partial: string) => {
+      streamedText = partial;
+      setStreamingReply(prev => ({ text: partial, status: prev?.status ?? '' }));
+    };
+
+    if (isForcedEdit) {
+      abortControllerRef.current = controller;
+    } else {
+      replyAbortRef.current = controller;
+      showReplyStatus(t('status.thinking'));
+    }
 
     try {
-      const currentRefImage = overrideRefImage || referenceImage;
-      
       // 1. Detect Intent
       // If explicit reference image provided in this turn (Try-On), force Image Edit.
-      // Otherwise check text intent.
-      const intent = currentRefImage ? 'EDIT_IMAGE' : detectIntent(text);
+      // Otherwise classify the text.
+      const { intent, attributes }: IntentResult = isForcedEdit
+        ? { intent: 'EDIT', attributes: {}, source: 'keywords' }
+        : forcedIntent
+        ? { intent: forcedIntent, attributes: {}, source: 'keywords' }
+        : await classifyIntent(text, { signal });
 
-      if (intent === 'EDIT_IMAGE') {
-        setGenerationState({ isGenerating: true, progress: 'Generating your new look... (using Gemini 2.5 Flash Image)' });
-        
-        const rawUserImage = cleanBase64(userImage);
-        const rawRefImage = currentRefImage ? cleanBase64(currentRefImage) : undefined;
-        
-        const newImageBase64 = await generateEyewearImage(rawUserImage, text, rawRefImage);
-        const fullNewImage = `data:image/jpeg;base64,${newImageBase64}`;
-        
-        setGeneratedImage(fullNewImage);
-        
-        setChatHistory(prev => [...prev, { 
-          role: MessageRole.MODEL, 
-          text: currentRefImage 
-            ? "I've placed the glasses from your reference image onto your face. How do they fit?" 
-            : "Here is the updated look based on your request. Use the slider to compare!",
-          timestamp: Date.now() 
-        }]);
-      } else {
-        // Chat / Shopping intent
-        setGenerationState({ isGenerating: true, progress: 'Consulting the optical expert... (using Gemini 3 Pro)' });
-        
-        const currentContextImage = generatedImage ? cleanBase64(generatedImage) : cleanBase64(userImage);
-        
-        const response = await chatWithStylist(text, currentContextImage, chatHistory);
-        
-        setChatHistory(prev => [...prev, { 
-          role: MessageRole.MODEL, 
-          text: response.text, 
-          timestamp: Date.now(),
-          groundingUrls: response.groundingUrls
-        }]);
+      // 2. Route
+      switch (intent) {
+        case 'EDIT': {
+          if (!usesOverlay) {
+            usesOverlay = true;
+            setStreamingReply(null);
+            replyAbortRef.current = null;
+            abortControllerRef.current = controller;
+          }
+          setGenerationState({ isGenerating: true, progress: t('progress.generating') });
+          
+          // Edits refine the selected version rather than starting over from the original
+          const rawBaseImage = cleanBase64(generatedImage || userImage);
+          const rawRefs = currentRefs.map(ref => ({ base64: cleanBase64(ref.image), view: ref.view }));
+          
+          // Catalog try-ons and lens previews use a structured prompt instead of the chat text;
+          // chat edits spell out the frame attributes the classifier found
+          const editPrompt = structuredEdit?.editPrompt ?? withFrameAttributes(text, attributes);
+          // In a group photo, edits only go to the people picked on the photo
+          const targets = isGroupPhoto
+            ? faces.filter(f => selectedFaceIds.includes(f.id)).map(f => ({ faceId: f.id, prompt: editPrompt }))
+            : [];
+          const modelPrompt = targets.length ? buildGroupPrompt(faces, targets) : editPrompt;
+          const { image, quality } = await generateVerifiedLook(rawBaseImage, modelPrompt, rawRefs, {
+            signal,
+            onRetry: (attempt) => setGenerationState({ isGenerating: true, progress: t('progress.fixingDrift', { attempt, total: MAX_QUALITY_RETRIES + 1 }) })
+          });
+          const fullNewImage = `data:image/jpeg;base64,${image}`;
+          
+          const label: LocalizedMessage | undefined = targets.length
+            ? { key: 'look.groupStyle', variables: { summary: summarizeAssignments(targets, faceLabel) } }
+            : structuredEdit?.label;
+          const version = { ...createVersion(fullNewImage, modelPrompt, selectedVersionId, currentRefs[0]?.image, structuredEdit?.frameSku), label, quality };
+          recordNewLook(version);
+          setVersions(prev => [...prev, version]);
+          setSelectedVersionId(version.id);
+          setViewMode('single');
+          
+          setChatHistory(prev => [...prev, { 
+            role: MessageRole.MODEL, 
+            text: (structuredEdit
+              ? structuredEdit.reply
+              : currentRefs.length > 0
+              ? t('reply.referenceEditDone')
+              : t('reply.editDone'))
+              + (quality.passed ? '' : t('reply.drift', { attempts: quality.attempts, issues: formatIssues(quality.issues) })),
+            timestamp: Date.now(),
+            contextImage: fullNewImage
+          }]);
+          break;
+        }
+
+        case 'UNDO':
+        case 'REDO':
+          // Handled locally, on the same history as Ctrl+Z / Ctrl+Shift+Z
+          replyToHistoryCommand(intent, userMsg);
+          break;
+
+        case 'SHOP': {
+          showReplyStatus(t('status.searching'));
+
+          const currentContextImage = generatedImage ? cleanBase64(generatedImage) : cleanBase64(userImage);
+          const response = await shopForLook(text, currentContextImage, chatHistory, { signal, onText, locale: stylistLocale, attributes });
+
+          setChatHistory(prev => [...prev, {
+            role: MessageRole.MODEL,
+            text: response.text,
+            timestamp: Date.now(),
+            groundingUrls: response.groundingUrls,
+            products: response.products,
+            contextImage: lookInView
+          }]);
+          break;
+        }
+
+        case 'ADVICE':
+        case 'COMPARE': {
+          showReplyStatus(t('status.consulting'));
+          
+          const currentContextImage = generatedImage ? cleanBase64(generatedImage) : cleanBase64(userImage);
+          // Comparisons also get the slider baseline look
+          const compareContextImage = intent === 'COMPARE' && generatedImage && compareImage ? cleanBase64(compareImage) : undefined;
+          
+          const response = await chatWithStylist(text, currentContextImage, chatHistory, compareContextImage, { signal, onText, locale: stylistLocale });
+          
+          setChatHistory(prev => [...prev, { 
+            role: MessageRole.MODEL, 
+            text: response.text, 
+            timestamp: Date.now(),
+            groundingUrls: response.groundingUrls,
+            contextImage: lookInView
+          }]);
+          break;
+        }
       }
 
     } catch (error) {
       console.error(error);
-      setChatHistory(prev => [...prev, { role: MessageRole.MODEL, text: "Sorry, something went wrong. Please try again.", isError: true, timestamp: Date.now() }]);
+      // Each failure type gets its own explanation; a cancel isn't an error worth flagging
+      const generationError = toGenerationError(error);
+      const isCancelled = generationError instanceof CancelledError;
+      // A stopped reply keeps whatever had already streamed in
+      const partialReply = isCancelled && streamedText.trim() ? `${streamedText}\n\n${t('chat.stopped')}` : null;
+      setChatHistory(prev => [...prev, {
+        role: MessageRole.MODEL,
+        text: partialReply ?? (isCancelled ? t('reply.cancelled') : translateMessage(generationError.userMessage)),
+        isError: !isCancelled,
+        timestamp: Date.now(),
+        contextImage: partialReply ? lookInView : undefined
+      }]);
     } finally {
-      setGenerationState({ isGenerating: false, progress: '' });
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      if (replyAbortRef.current === controller) replyAbortRef.current = null;
+      if (usesOverlay) {
+        setGenerationState({ isGenerating: false, progress: '' });
+      } else {
+        setStreamingReply(null);
+      }
     }
   };
 
   const handleShopLook = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent slider interactions
-    handleSendMessage("Find online shopping links for glasses that look exactly like the ones in this photo.");
+    handleSendMessage(t('request.shopLook'), null, undefined, 'SHOP');
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -133,84 +1002,209 @@ const App: React.FC = () => {
   return (
     <div className="flex h-screen overflow-hidden bg-slate-50">
       {/* Sidebar / Configuration */}
-      <div className="w-96 bg-white border-r border-slate-200 flex flex-col z-20 shadow-xl">
-        <div className="p-6 border-b border-slate-100">
-          <div className="flex items-center space-x-2 text-primary mb-1">
-            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M2.036 12.322a1.012 1.012 0 010-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178z" />
-              <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-            </svg>
-            <h1 className="text-xl font-bold tracking-tight text-slate-900">Visionary<span className="text-primary">AI</span></h1>
+      <div className="w-96 bg-white border-e border-slate-200 flex flex-col z-20 shadow-xl">
+        <div className="p-6 border-b border-slate-100 flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-2 rtl:space-x-reverse text-primary mb-1">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-6 h-6">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M2.036 12.322a1.012 1.012 0 010-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+              <h1 className="text-xl font-bold tracking-tight text-slate-900" dir="ltr">Visionary<span className="text-primary">AI</span></h1>
+            </div>
+            <p className="text-xs text-slate-500">{t('app.tagline')}</p>
           </div>
-          <p className="text-xs text-slate-500">Your AI Optical Consultant</p>
+          <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            aria-label={t('app.language')}
+            className="text-xs border border-slate-200 rounded-lg px-2 py-1 bg-white text-slate-600 outline-none focus:border-primary"
+          >
+            {LOCALES.map(option => <option key={option.code} value={option.code}>{option.name}</option>)}
+          </select>
         </div>
 
         <div className="flex-1 overflow-y-auto p-6 space-y-8 scrollbar-hide">
           
           {/* Section: User Photo */}
           <section>
-            <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-3">1. Your Photo</h3>
+            <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-3">{t('photo.title')}</h3>
             {userImage ? (
-              <div className="relative rounded-xl overflow-hidden shadow-md border border-slate-200 group">
-                <img src={userImage} alt="User" className="w-full h-48 object-cover" />
-                <button 
-                  onClick={() => { setUserImage(null); setGeneratedImage(null); }}
-                  className="absolute top-2 right-2 bg-white/90 hover:bg-red-50 text-slate-600 hover:text-red-500 p-1.5 rounded-full shadow-sm transition-all opacity-0 group-hover:opacity-100"
+              <div className="space-y-3">
+                <div className="relative rounded-xl overflow-hidden shadow-md border border-slate-200 group">
+                  {isGroupPhoto ? (
+                    <FaceSelector image={userImage} faces={faces} selectedIds={selectedFaceIds} onToggle={toggleFaceSelection} disabled={isBusy} />
+                  ) : (
+                    <img src={userImage} alt={t('photo.alt')} className="w-full h-48 object-cover" />
+                  )}
+                  <button 
+                    onClick={handleRemovePhoto}
+                    aria-label={t('photo.remove')}
+                    title={t('photo.removeHint')}
+                    className="absolute top-2 end-2 bg-white/90 hover:bg-red-50 text-slate-600 hover:text-red-500 p-1.5 rounded-full shadow-sm transition-all opacity-0 group-hover:opacity-100"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+                {isGroupPhoto && (
+                  <div className="p-3 rounded-lg border border-slate-200 bg-white space-y-3">
+                    <div>
+                      <p className="text-sm font-medium text-slate-700">{t('group.summary', { count: faces.length })}</p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        {t(selectedFaceIds.length ? 'group.targetsSelected' : 'group.targetsEveryone')}
+                      </p>
+                    </div>
+                    <GroupStylePanel faces={faces} selectedIds={selectedFaceIds} onApply={handleGroupTryOn} disabled={isBusy} />
+                  </div>
+                )}
+                <FaceProfileCard profile={faceProfile} isAnalyzing={isAnalyzingFace} error={faceAnalysisError} />
+                <button
+                  onClick={() => setIsMeasuring(true)}
+                  disabled={isBusy}
+                  className="w-full p-3 rounded-lg border border-slate-200 bg-white hover:border-primary transition-all text-start disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                  </svg>
+                  <p className="text-sm font-medium text-slate-700">📏 {t(measurement ? 'measure.saved' : 'measure.open')}</p>
+                  {measurement ? (
+                    <p className="text-xs text-slate-500 mt-1">
+                      {t('measure.summary', {
+                        pd: measurement.pdMm,
+                        lens: formatRange(measurement.lensWidthMm),
+                        bridge: formatRange(measurement.bridgeMm),
+                        temple: formatRange(measurement.templeLengthMm)
+                      })}
+                    </p>
+                  ) : (
+                    <p className="text-xs text-slate-500 mt-1">{t('measure.hint')}</p>
+                  )}
                 </button>
               </div>
+            ) : isCameraOpen ? (
+              <CameraCapture onCapture={handleUserImageUpload} onCancel={() => setIsCameraOpen(false)} />
             ) : (
-              <ImageUploader onImageSelected={handleUserImageUpload} />
+              <div className="space-y-3">
+                <ImageUploader onImageSelected={handleUserImageUpload} />
+                <button
+                  onClick={() => setIsCameraOpen(true)}
+                  className="w-full flex items-center justify-center space-x-2 rtl:space-x-reverse p-3 rounded-lg border border-slate-200 bg-white hover:border-primary hover:shadow-md transition-all text-sm font-medium text-slate-700"
+                >
+                  <span className="text-lg">📷</span>
+                  <span>{t('photo.takeSelfie')}</span>
+                </button>
+              </div>
             )}
           </section>
 
-          {/* Section: Styles */}
+          {/* Section: Catalog */}
           {userImage && (
              <section>
-              <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-3">2. Quick Try-On</h3>
-              <div className="grid grid-cols-2 gap-3">
-                {PRESET_STYLES.map(style => (
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">{t('catalog.title')}</h3>
+                <button
+                  onClick={() => { setIsBatchMode(!isBatchMode); setBatchSelection([]); }}
+                  disabled={isBusy}
+                  className={`text-xs font-medium px-2 py-1 rounded-full border transition-colors disabled:opacity-50 ${isBatchMode ? 'bg-primary text-white border-primary' : 'text-slate-500 border-slate-200 hover:border-primary'}`}
+                >
+                  {t(isBatchMode ? 'common.cancel' : 'catalog.compareSeveral')}
+                </button>
+              </div>
+              <FrameCatalog
+                frames={CATALOG}
+                rateFrame={rateFrame}
+                fitFor={measurement ? (frame) => getFrameFit(frame, measurement) : undefined}
+                onTryOn={handleFrameTryOn}
+                isBatchMode={isBatchMode}
+                selectedSkus={batchSelection}
+                onToggleSelect={toggleBatchSelection}
+                disabled={isBusy}
+              />
+              {isBatchMode && (
+                <div className="mt-3 space-y-2">
+                  {referenceImage && (
+                    <label className="flex items-center space-x-2 rtl:space-x-reverse text-xs text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={includeReferenceInBatch}
+                        onChange={(e) => setIncludeReferenceInBatch(e.target.checked)}
+                      />
+                      <span>{t('batch.includeReference')}</span>
+                    </label>
+                  )}
                   <button
-                    key={style.id}
-                    onClick={() => handleStyleSelect(style)}
-                    disabled={generationState.isGenerating}
-                    className="flex items-center space-x-2 p-3 rounded-lg border border-slate-200 bg-white hover:border-primary hover:shadow-md transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={handleGenerateBatch}
+                    disabled={isBusy || batchSelection.length + (includeReferenceInBatch && referenceImage ? 1 : 0) === 0}
+                    className="w-full bg-primary text-white text-sm font-medium py-2 rounded-lg hover:bg-sky-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                   >
-                    <span className="text-xl">{style.icon}</span>
-                    <span className="text-sm font-medium text-slate-700">{style.label}</span>
+                    {plural('batch.generate', batchSelection.length + (includeReferenceInBatch && referenceImage ? 1 : 0))}
                   </button>
-                ))}
-              </div>
+                </div>
+              )}
             </section>
           )}
 
           {/* Section: Reference Upload */}
           {userImage && (
             <section>
-              <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-3">3. Try Specific Frames</h3>
+              <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-3">{t('reference.title')}</h3>
               <div className="space-y-2">
-                <p className="text-xs text-slate-500 mb-2">Upload an image of glasses to map them onto your face.</p>
-                {referenceImage ? (
-                  <div className="relative rounded-lg overflow-hidden border border-slate-200 h-32">
-                    <img src={referenceImage} alt="Reference" className="w-full h-full object-contain bg-slate-50" />
-                     <button 
-                      onClick={() => setReferenceImage(null)}
-                      className="absolute top-2 right-2 bg-white/90 hover:bg-red-50 p-1 rounded-full shadow-sm"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3">
-                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-                      </svg>
-                    </button>
-                  </div>
-                ) : (
-                  <ImageUploader onImageSelected={handleReferenceImageUpload} label="Upload Glasses" compact />
-                )}
+                <p className="text-xs text-slate-500 mb-2">{t('reference.hint')}</p>
+                <ReferenceViews views={referenceViews} onChange={handleReferenceChange} onTryOn={handleReferenceTryOn} disabled={isBusy} />
               </div>
             </section>
           )}
+
+          {/* Section: Lenses */}
+          {userImage && (
+            <section>
+              <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-3">{t('lenses.title')}</h3>
+              <LensPanel
+                frameName={currentFrame ? getFrameName(currentFrame) : null}
+                lensWidthMm={currentFrame?.lensWidthMm ?? DEFAULT_LENS_WIDTH_MM}
+                onApply={handleLensPreview}
+                disabled={isBusy || !generatedImage}
+              />
+              {!generatedImage && <p className="text-xs text-slate-400 mt-2">{t('lenses.hint')}</p>}
+            </section>
+          )}
+
+          {/* Section: Wishlist */}
+          <section>
+            <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider mb-3">{t('wishlist.title')}</h3>
+            <WishlistPanel
+              items={wishlist}
+              onRemove={(product) => setWishlist(prev => toggleWishlistItem(prev, product))}
+            />
+          </section>
+
+          {/* Section: Saved Sessions */}
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">{t('sessions.title')}</h3>
+              <label className={`text-xs font-medium text-slate-500 hover:text-primary ${isBusy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                {t('sessions.import')}
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleImportBundle(file);
+                  }}
+                />
+              </label>
+            </div>
+            <SessionList
+              sessions={savedSessions}
+              activeId={session?.id ?? null}
+              onOpen={handleOpenSession}
+              onRename={handleRenameSession}
+              onDelete={handleDeleteSession}
+              onNew={handleNewSession}
+              disabled={isBusy || isReplying}
+            />
+          </section>
         </div>
       </div>
 
@@ -219,30 +1213,185 @@ const App: React.FC = () => {
         
         {/* Visualization Area */}
         <div className="flex-1 bg-slate-100 relative flex items-center justify-center overflow-hidden p-4">
+          {/* Export */}
+          {userImage && session && (
+            <div className="absolute top-4 end-4 z-40">
+              <ExportMenu
+                canExportImage={!!generatedImage}
+                starredCount={versions.filter(v => v.starred).length}
+                onExportImage={handleExportImage}
+                onExportLookbook={handleExportLookbook}
+                onExportBundle={handleExportBundle}
+                disabled={isBusy}
+              />
+            </div>
+          )}
+
+          {(userImage || canUndo || canRedo) && (
+            <div className="absolute top-4 start-4 z-30 flex items-center space-x-2 rtl:space-x-reverse">
+              {/* Undo / Redo */}
+              <div className="flex bg-white rounded-full shadow-md ring-1 ring-slate-900/5 p-1 text-xs font-medium">
+                <button
+                  onClick={handleUndo}
+                  disabled={isBusy || !canUndo}
+                  title={canUndo ? t('history.undoHint', { label: history.past.at(-1)!.label }) : t('history.nothingToUndo')}
+                  aria-label={t('history.undo')}
+                  className="px-3 py-1 rounded-full text-slate-600 hover:text-slate-900 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  ↶
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={isBusy || !canRedo}
+                  title={canRedo ? t('history.redoHint', { label: history.future.at(-1)!.label }) : t('history.nothingToRedo')}
+                  aria-label={t('history.redo')}
+                  className="px-3 py-1 rounded-full text-slate-600 hover:text-slate-900 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  ↷
+                </button>
+              </div>
+
+              {/* Mode Toggle */}
+              {userImage && (
+                <div className="flex bg-white rounded-full shadow-md ring-1 ring-slate-900/5 p-1 text-xs font-medium">
+                  {[AppMode.UPLOAD, AppMode.TRY_ON].map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setAppMode(mode)}
+                      disabled={isBusy}
+                      className={`px-3 py-1 rounded-full transition-colors disabled:cursor-not-allowed ${appMode === mode ? 'bg-primary text-white' : 'text-slate-600 hover:text-slate-900'}`}
+                    >
+                      {t(mode === AppMode.UPLOAD ? 'mode.photo' : 'mode.turntable')}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* View Toggle */}
+              {appMode === AppMode.UPLOAD && batchItems.length > 0 && (
+                <div className="flex bg-white rounded-full shadow-md ring-1 ring-slate-900/5 p-1 text-xs font-medium">
+                  {(['grid', 'single'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setViewMode(mode)}
+                      className={`px-3 py-1 rounded-full transition-colors ${viewMode === mode ? 'bg-primary text-white' : 'text-slate-600 hover:text-slate-900'}`}
+                    >
+                      {t(mode === 'grid' ? 'view.grid' : 'view.single')}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {userImage ? (
-            generatedImage ? (
+            appMode === AppMode.TRY_ON ? (
+              <div className="w-full flex flex-col items-center space-y-4">
+                {headTurnFrames ? (
+                  <>
+                    <TurntableViewer frames={headTurnFrames} />
+                    <div className="flex items-center space-x-3 rtl:space-x-reverse">
+                      <button
+                        onClick={() => setHeadTurnFrames(null)}
+                        disabled={isBusy}
+                        className="text-sm font-medium text-slate-700 border border-slate-200 bg-white hover:border-primary px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {t('turntable.newClip')}
+                      </button>
+                      <button
+                        onClick={handleStyleHeadTurn}
+                        disabled={isBusy || (!selectedVersion && referenceViews.length === 0)}
+                        className="text-sm font-medium text-white bg-primary hover:bg-sky-600 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {selectedVersion ? t('turntable.styleWithLook', { label: getVersionLabel(versions, selectedVersion.id) }) : t('turntable.styleWithReference')}
+                      </button>
+                    </div>
+                    {!selectedVersion && referenceViews.length === 0 && (
+                      <p className="text-xs text-slate-500">{t('turntable.needsLook')}</p>
+                    )}
+                  </>
+                ) : (
+                  <HeadTurnCapture onClip={handleHeadTurnClip} disabled={isBusy} />
+                )}
+              </div>
+            ) : viewMode === 'grid' && batchItems.length > 0 ? (
+              <StyleGrid
+                items={batchItems}
+                versions={versions}
+                compareId={compareVersionId}
+                onToggleStar={handleToggleStar}
+                onRemove={handleRemoveBatchItem}
+                onExpand={handleExpandLook}
+                onSetBaseline={setCompareVersionId}
+                onCancel={isBatchRunning ? () => abortControllerRef.current?.abort() : undefined}
+              />
+            ) : generatedImage && isMaskEditing ? (
+              <MaskEditor
+                image={generatedImage}
+                onApply={handleRegionEdit}
+                onCancel={() => setIsMaskEditing(false)}
+                disabled={isBusy}
+              />
+            ) : generatedImage ? (
               <div className="w-full max-w-4xl aspect-[4/3] shadow-2xl rounded-2xl overflow-hidden ring-1 ring-slate-900/5 relative group">
-                 <ComparisonSlider originalImage={userImage} generatedImage={generatedImage} />
+                 <ComparisonSlider
+                   originalImage={compareImage || userImage}
+                   generatedImage={generatedImage}
+                   originalLabel={compareVersionId ? getVersionLabel(versions, compareVersionId).toUpperCase() : t('compare.original')}
+                   generatedLabel={getVersionLabel(versions, selectedVersionId).toUpperCase()}
+                 />
+
+                 {/* Fit Quality Badge */}
+                 {versions.find(v => v.id === selectedVersionId)?.quality && (
+                   <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30" onMouseDown={(e) => e.stopPropagation()}>
+                     <QualityBadge quality={versions.find(v => v.id === selectedVersionId)!.quality!} />
+                   </div>
+                 )}
+
+                 {/* Star Button */}
+                 {selectedVersionId && (
+                   <div className="absolute bottom-6 start-6 z-30 flex space-x-2 rtl:space-x-reverse">
+                      <button
+                          onClick={(e) => { e.stopPropagation(); handleToggleStar(selectedVersionId); }}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          className={`px-4 py-3 rounded-full shadow-lg backdrop-blur-md font-bold text-sm flex items-center space-x-2 rtl:space-x-reverse transition-all ring-1 ring-slate-900/5 ${
+                            versions.find(v => v.id === selectedVersionId)?.starred ? 'bg-amber-400 text-white' : 'bg-white/95 hover:bg-white text-slate-900'
+                          }`}
+                      >
+                          <span className="text-lg">★</span>
+                          <span>{t(versions.find(v => v.id === selectedVersionId)?.starred ? 'look.starred' : 'look.star')}</span>
+                      </button>
+                      <button
+                          onClick={(e) => { e.stopPropagation(); setIsMaskEditing(true); }}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          disabled={isBusy}
+                          className="px-4 py-3 rounded-full shadow-lg backdrop-blur-md font-bold text-sm flex items-center space-x-2 rtl:space-x-reverse transition-all ring-1 ring-slate-900/5 bg-white/95 hover:bg-white text-slate-900 disabled:opacity-50"
+                      >
+                          <span className="text-lg">🖌️</span>
+                          <span>{t('look.editRegion')}</span>
+                      </button>
+                   </div>
+                 )}
                  
                  {/* Shop Similar Button */}
-                 <div className="absolute bottom-6 right-6 z-30">
+                 <div className="absolute bottom-6 end-6 z-30">
                     <button
                         onClick={handleShopLook}
-                        disabled={generationState.isGenerating}
-                        className="bg-white/95 hover:bg-white text-slate-900 px-5 py-3 rounded-full shadow-lg backdrop-blur-md border border-white/50 font-bold text-sm flex items-center space-x-2 transition-all transform hover:scale-105 active:scale-95 hover:shadow-xl ring-1 ring-slate-900/5"
+                        disabled={isBusy || isReplying}
+                        className="bg-white/95 hover:bg-white text-slate-900 px-5 py-3 rounded-full shadow-lg backdrop-blur-md border border-white/50 font-bold text-sm flex items-center space-x-2 rtl:space-x-reverse transition-all transform hover:scale-105 active:scale-95 hover:shadow-xl ring-1 ring-slate-900/5"
                     >
                         <span className="text-lg">🛍️</span>
-                        <span>Shop Similar Styles</span>
+                        <span>{t('look.shop')}</span>
                     </button>
                  </div>
               </div>
             ) : (
                <div className="w-full max-w-4xl aspect-[4/3] relative shadow-2xl rounded-2xl overflow-hidden ring-1 ring-slate-900/5">
-                 <img src={userImage} alt="Original" className="w-full h-full object-cover" />
+                 <img src={userImage} alt={t('photo.originalAlt')} className="w-full h-full object-cover" />
                  <div className="absolute inset-0 bg-black/10 backdrop-blur-[2px] flex items-center justify-center">
                     <div className="bg-white/90 p-6 rounded-xl shadow-lg text-center max-w-md">
-                       <p className="text-lg font-medium text-slate-800">Ready to style!</p>
-                       <p className="text-slate-500 mt-1">Select a style from the left, upload frames, or use the chat below to describe what you want.</p>
+                       <p className="text-lg font-medium text-slate-800">{t('ready.title')}</p>
+                       <p className="text-slate-500 mt-1">{t('ready.body')}</p>
                     </div>
                  </div>
                </div>
@@ -254,8 +1403,8 @@ const App: React.FC = () => {
                   <path strokeLinecap="round" strokeLinejoin="round" d="M6.827 6.175A2.31 2.31 0 015.186 7.23c-.38.054-.757.112-1.134.175C2.999 7.58 2.25 8.507 2.25 9.574V18a2.25 2.25 0 002.25 2.25h15A2.25 2.25 0 0021.75 18V9.574c0-1.067-.75-1.994-1.802-2.169a47.865 47.865 0 00-1.134-.175 2.31 2.31 0 01-1.64-1.055l-.822-1.316a2.192 2.192 0 00-1.736-1.039 48.774 48.774 0 00-5.232 0 2.192 2.192 0 00-1.736 1.039l-.821 1.316z" />
                 </svg>
               </div>
-              <h2 className="text-2xl font-bold text-slate-700">Welcome to VisionaryAI</h2>
-              <p className="text-slate-500">Upload a selfie to get started with the next generation of virtual eyewear try-on.</p>
+              <h2 className="text-2xl font-bold text-slate-700">{t('welcome.title')}</h2>
+              <p className="text-slate-500">{t('welcome.body')}</p>
             </div>
           )}
           
@@ -265,12 +1414,31 @@ const App: React.FC = () => {
               <div className="bg-white p-8 rounded-2xl shadow-2xl flex flex-col items-center animate-in fade-in zoom-in duration-300">
                 <div className="w-12 h-12 border-4 border-primary border-t-transparent rounded-full animate-spin mb-4"></div>
                 <p className="text-lg font-semibold text-slate-800">{generationState.progress}</p>
-                <p className="text-sm text-slate-500 mt-1">This might take a few seconds...</p>
+                <p className="text-sm text-slate-500 mt-1">{t('overlay.wait')}</p>
+                <button
+                  onClick={() => abortControllerRef.current?.abort()}
+                  className="mt-5 text-sm font-medium text-slate-600 border border-slate-200 hover:border-red-300 hover:text-red-500 px-4 py-1.5 rounded-lg transition-colors"
+                >
+                  {t('common.cancel')}
+                </button>
               </div>
             </div>
           )}
         </div>
 
+        {/* Look History Filmstrip */}
+        {userImage && versions.length > 0 && (
+          <VersionTimeline
+            originalImage={userImage}
+            versions={versions}
+            selectedId={selectedVersionId}
+            compareId={compareVersionId}
+            onSelect={handleExpandLook}
+            onCompare={setCompareVersionId}
+            disabled={isBusy}
+          />
+        )}
+
         {/* Context Aware Chat Interface */}
         <div className="h-80 bg-white border-t border-slate-200 flex flex-col">
             
@@ -278,22 +1446,35 @@ const App: React.FC = () => {
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
                 {chatHistory.length === 0 && (
                   <div className="text-center text-slate-400 text-sm py-8">
-                    Ask me to change the color, style, or find where to buy these frames!
+                    {t('chat.empty')}
                   </div>
                 )}
                 {chatHistory.map((msg, idx) => (
                   <div key={idx} className={`flex ${msg.role === MessageRole.USER ? 'justify-end' : 'justify-start'}`}>
                     <div className={`max-w-[80%] rounded-2xl px-4 py-3 ${
                       msg.role === MessageRole.USER 
-                        ? 'bg-primary text-white rounded-tr-none' 
-                        : 'bg-slate-100 text-slate-800 rounded-tl-none'
+                        ? 'bg-primary text-white rounded-se-none'
+                        : 'bg-slate-100 text-slate-800 rounded-ss-none'
                     }`}>
-                      <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+                      {msg.role === MessageRole.USER
+                        ? <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+                        : <MarkdownMessage text={msg.text} citations={msg.groundingUrls} />}
                       
-                      {/* Grounding Links */}
-                      {msg.groundingUrls && msg.groundingUrls.length > 0 && (
+                      {/* Product Results */}
+                      {msg.products && msg.products.length > 0 && (
                         <div className="mt-3 pt-3 border-t border-slate-200/50">
-                           <p className="text-xs font-bold uppercase opacity-70 mb-2">Shopping Suggestions:</p>
+                          <ProductResults
+                            products={msg.products}
+                            wishlist={wishlist}
+                            onToggleWishlist={(product) => setWishlist(prev => toggleWishlistItem(prev, product))}
+                          />
+                        </div>
+                      )}
+
+                      {/* Grounding Links (when no products could be extracted) */}
+                      {!msg.products?.length && msg.groundingUrls && msg.groundingUrls.length > 0 && (
+                        <div className="mt-3 pt-3 border-t border-slate-200/50">
+                           <p className="text-xs font-bold uppercase opacity-70 mb-2">{t('chat.shoppingSuggestions')}</p>
                            <div className="flex flex-wrap gap-2">
                              {msg.groundingUrls.slice(0,5).map((url, i) => (
                                <a 
@@ -301,7 +1482,7 @@ const App: React.FC = () => {
                                 href={url.uri} 
                                 target="_blank" 
                                 rel="noopener noreferrer"
-                                className="text-xs bg-white/50 hover:bg-white text-current px-2 py-1 rounded border border-current/10 transition-colors flex items-center space-x-1"
+                                className="text-xs bg-white/50 hover:bg-white text-current px-2 py-1 rounded border border-current/10 transition-colors flex items-center space-x-1 rtl:space-x-reverse"
                                >
                                  <span>🛍️</span>
                                  <span className="truncate max-w-[150px]">{url.title}</span>
@@ -313,6 +1494,32 @@ const App: React.FC = () => {
                     </div>
                   </div>
                 ))}
+
+                {/* Reply in progress */}
+                {streamingReply && (
+                  <div className="flex justify-start">
+                    <div className="max-w-[80%] rounded-2xl rounded-ss-none px-4 py-3 bg-slate-100 text-slate-800">
+                      {streamingReply.text ? (
+                        <MarkdownMessage text={streamingReply.text} />
+                      ) : (
+                        <div className="flex items-center space-x-2 rtl:space-x-reverse text-sm text-slate-500">
+                          <span className="flex space-x-1 rtl:space-x-reverse">
+                            <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" />
+                            <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce [animation-delay:150ms]" />
+                            <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce [animation-delay:300ms]" />
+                          </span>
+                          <span>{streamingReply.status}</span>
+                        </div>
+                      )}
+                      <button
+                        onClick={() => replyAbortRef.current?.abort()}
+                        className="mt-2 text-xs font-medium text-slate-500 hover:text-red-500 transition-colors"
+                      >
+                        {t('chat.stop')}
+                      </button>
+                    </div>
+                  </div>
+                )}
                 <div ref={chatEndRef} />
             </div>
 
@@ -321,19 +1528,20 @@ const App: React.FC = () => {
               <div className="relative">
                 <input 
                   type="text" 
-                  className="w-full pl-4 pr-12 py-4 rounded-xl border border-slate-300 focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none shadow-sm text-sm transition-all"
-                  placeholder="Type here... e.g., 'Make the frames red' or 'Where can I buy similar glasses?'"
+                  className="w-full ps-4 pe-12 py-4 rounded-xl border border-slate-300 focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none shadow-sm text-sm transition-all"
+                  placeholder={t('chat.placeholder')}
                   value={inputMessage}
                   onChange={(e) => setInputMessage(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  disabled={generationState.isGenerating}
+                  disabled={isBusy || isReplying}
                 />
                 <button 
                   onClick={() => handleSendMessage()}
-                  disabled={!inputMessage.trim() || generationState.isGenerating}
-                  className="absolute right-2 top-2 bottom-2 bg-primary text-white px-3 rounded-lg hover:bg-sky-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  disabled={!inputMessage.trim() || isBusy || isReplying}
+                  aria-label={t('chat.send')}
+                  className="absolute end-2 top-2 bottom-2 bg-primary text-white px-3 rounded-lg hover:bg-sky-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
-                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 rtl:-scale-x-100">
                     <path strokeLinecap="round" strokeLinejoin="round" d="M6 12L3.269 3.126A59.768 59.768 0 0121.485 12 59.77 59.77 0 013.27 20.876L5.999 12zm0 0h7.5" />
                   </svg>
                 </button>
@@ -342,6 +1550,16 @@ const App: React.FC = () => {
         </div>
 
       </div>
+
+      {/* Measurement Modal */}
+      {isMeasuring && userImage && (
+        <MeasurementTool
+          image={userImage}
+          initialLandmarks={measurement?.landmarks}
+          onSave={(result) => { setMeasurement(result); setIsMeasuring(false); }}
+          onClose={() => setIsMeasuring(false)}
+        />
+      )}
     </div>
   );
 };
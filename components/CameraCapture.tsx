@@ -0,0 +1,231 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { normalizeToJpeg } from '../utils/imageUtils';
+import { formatNumber, MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface CameraCaptureProps {
+  onCapture: (base64: string) => void;
+  onCancel: () => void;
+  countdownSeconds?: number;
+}
+
+type FacingMode = 'user' | 'environment';
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, countdownSeconds = 3 }) => {
+  const { t, locale } = useI18n();
+  const [facingMode, setFacingMode] = useState<FacingMode>('user');
+  const [hasMultipleCameras, setHasMultipleCameras] = useState(false);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  // Start (or restart) the camera whenever the facing mode changes or we return from a capture
+  useEffect(() => {
+    if (capturedImage) return;
+
+    let cancelled = false;
+    const startCamera = async () => {
+      setIsStarting(true);
+      setError(null);
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('camera.unsupported');
+        setIsStarting(false);
+        return;
+      }
+
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode, width: { ideal: 1280 }, height: { ideal: 960 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+        }
+
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setHasMultipleCameras(devices.filter(d => d.kind === 'videoinput').length > 1);
+        }
+      } catch (err) {
+        console.error("Error starting camera:", err);
+        if (!cancelled) {
+          setError('camera.accessFailed');
+        }
+      } finally {
+        if (!cancelled) setIsStarting(false);
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [facingMode, capturedImage, stopStream]);
+
+  const captureFrame = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    // The front camera preview is mirrored, so mirror the capture too and the photo matches what the user saw
+    const dataUrl = normalizeToJpeg(video, video.videoWidth, video.videoHeight, { mirror: facingMode === 'user' });
+    if (!dataUrl) {
+      setError('camera.captureFailed');
+      return;
+    }
+
+    setCapturedImage(dataUrl);
+    stopStream();
+  }, [facingMode, stopStream]);
+
+  // Countdown ticker
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      captureFrame();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, captureFrame]);
+
+  const handleShutter = () => setCountdown(countdownSeconds);
+  const handleRetake = () => setCapturedImage(null);
+  const handleSwitchCamera = () => setFacingMode(prev => (prev === 'user' ? 'environment' : 'user'));
+
+  const handleUsePhoto = () => {
+    if (capturedImage) onCapture(capturedImage);
+  };
+
+  const handleCancel = () => {
+    stopStream();
+    onCancel();
+  };
+
+  return (
+    <div className="rounded-xl overflow-hidden border border-slate-200 shadow-md bg-slate-900">
+      <div className="relative aspect-[3/4] bg-black">
+        {capturedImage ? (
+          <img src={capturedImage} alt={t('camera.capturedAlt')} className="w-full h-full object-cover" />
+        ) : (
+          <>
+            <video
+              ref={videoRef}
+              playsInline
+              muted
+              className={`w-full h-full object-cover ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+            />
+
+            {/* Face Centering Guide */}
+            {!error && !isStarting && (
+              <svg viewBox="0 0 100 133" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+                <defs>
+                  <mask id="face-guide-mask">
+                    <rect width="100" height="133" fill="white" />
+                    <ellipse cx="50" cy="60" rx="30" ry="40" fill="black" />
+                  </mask>
+                </defs>
+                <rect width="100" height="133" fill="rgba(0,0,0,0.35)" mask="url(#face-guide-mask)" />
+                <ellipse cx="50" cy="60" rx="30" ry="40" fill="none" stroke="white" strokeWidth="0.6" strokeDasharray="2 1.5" />
+              </svg>
+            )}
+            {!error && !isStarting && countdown === null && (
+              <p className="absolute bottom-3 inset-x-0 text-center text-xs font-medium text-white/90 pointer-events-none">
+                {t('camera.centerFace')}
+              </p>
+            )}
+
+            {/* Countdown */}
+            {countdown !== null && countdown > 0 && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <span className="text-6xl font-bold text-white drop-shadow-lg">{formatNumber(locale, countdown)}</span>
+              </div>
+            )}
+
+            {isStarting && !error && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            )}
+
+            {error && (
+              <div className="absolute inset-0 flex items-center justify-center p-6">
+                <p className="text-sm text-white text-center">{t(error)}</p>
+              </div>
+            )}
+
+            {hasMultipleCameras && !error && (
+              <button
+                onClick={handleSwitchCamera}
+                disabled={countdown !== null}
+                title={t('camera.switch')}
+                className="absolute top-2 right-2 bg-white/90 hover:bg-white text-slate-700 p-1.5 rounded-full shadow-sm transition-all disabled:opacity-50"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+                </svg>
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center justify-between p-3 bg-white">
+        <button
+          onClick={handleCancel}
+          className="text-sm font-medium text-slate-500 hover:text-slate-700 px-2 py-1"
+        >
+          {t('common.cancel')}
+        </button>
+
+        {capturedImage ? (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={handleRetake}
+              className="text-sm font-medium text-slate-700 border border-slate-200 hover:border-primary px-3 py-1.5 rounded-lg transition-colors"
+            >
+              {t('camera.retake')}
+            </button>
+            <button
+              onClick={handleUsePhoto}
+              className="text-sm font-medium text-white bg-primary hover:bg-sky-600 px-3 py-1.5 rounded-lg transition-colors"
+            >
+              {t('camera.usePhoto')}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleShutter}
+            disabled={!!error || isStarting || countdown !== null}
+            title={t('camera.takePhoto')}
+            className="w-12 h-12 rounded-full border-4 border-primary bg-white hover:bg-primary/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+        )}
+
+        {/* Spacer keeps the shutter centered */}
+        {!capturedImage && <span className="w-12" />}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,150 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import ComparisonSlider from './ComparisonSlider';
+import { I18nProvider } from './I18nProvider';
+
+const renderSlider = () => {
+  const { container } = render(<ComparisonSlider originalImage="original.jpg" generatedImage="generated.jpg" originalLabel="BEFORE" generatedLabel="AFTER" />);
+  const frame = container.firstElementChild as HTMLElement;
+  frame.getBoundingClientRect = () => ({ left: 100, width: 400, top: 0, height: 300, right: 500, bottom: 300, x: 100, y: 0, toJSON: () => ({}) });
+  // The original is clipped from the right so it shows on the left of the divider
+  const revealed = () => screen.getByAltText('Original').parentElement!.style.clipPath;
+  const zoom = () => screen.getByAltText('Generated').style.transform;
+  return { frame, revealed, zoom, slider: screen.getByRole('slider') };
+};
+
+describe('ComparisonSlider', () => {
+  it('starts halfway, with the original on the left', () => {
+    const { revealed, slider } = renderSlider();
+    expect(revealed()).toBe('inset(0 50% 0 0)');
+    expect(slider.getAttribute('aria-valuenow')).toBe('50');
+    expect(screen.getByText('BEFORE').className).toContain('left-4');
+    expect(screen.getByText('AFTER').className).toContain('right-4');
+  });
+
+  it('follows the pointer as a percentage of the width while dragging', () => {
+    const { frame, revealed } = renderSlider();
+
+    fireEvent.pointerDown(frame, { pointerId: 1, clientX: 200 });
+    expect(revealed()).toBe('inset(0 75% 0 0)');
+
+    fireEvent.pointerMove(frame, { pointerId: 1, clientX: 400 });
+    expect(revealed()).toBe('inset(0 25% 0 0)');
+
+    fireEvent.pointerMove(frame, { pointerId: 1, clientX: 900 });
+    expect(revealed()).toBe('inset(0 0% 0 0)');
+  });
+
+  it('stops following once released', () => {
+    const { frame, revealed } = renderSlider();
+
+    fireEvent.pointerDown(frame, { pointerId: 1, clientX: 200 });
+    fireEvent.pointerUp(frame, { pointerId: 1, clientX: 200 });
+    fireEvent.pointerMove(frame, { pointerId: 1, clientX: 400 });
+    expect(revealed()).toBe('inset(0 75% 0 0)');
+  });
+
+  it('moves with the keyboard', () => {
+    const { slider } = renderSlider();
+    const press = (key: string, shiftKey = false) => fireEvent.keyDown(slider, { key, shiftKey });
+
+    press('ArrowRight');
+    expect(slider.getAttribute('aria-valuenow')).toBe('51');
+    press('ArrowLeft', true);
+    expect(slider.getAttribute('aria-valuenow')).toBe('41');
+    press('PageUp');
+    expect(slider.getAttribute('aria-valuenow')).toBe('51');
+    press('Home');
+    expect(slider.getAttribute('aria-valuenow')).toBe('0');
+    press('ArrowLeft');
+    expect(slider.getAttribute('aria-valuenow')).toBe('0');
+    press('End');
+    expect(slider.getAttribute('aria-valuenow')).toBe('100');
+    expect(slider.getAttribute('aria-valuetext')).toBe('100% before, 0% after');
+  });
+
+  it('wipes top to bottom in wipe mode, with the original on top', () => {
+    const { frame, revealed, slider } = renderSlider();
+    fireEvent.click(screen.getByRole('radio', { name: 'Wipe' }));
+    expect(slider.getAttribute('aria-orientation')).toBe('vertical');
+    expect(revealed()).toBe('inset(0 0 50% 0)');
+    expect(screen.getByText('BEFORE').className).toContain('top-4');
+    expect(screen.getByText('AFTER').className).toContain('bottom-4');
+
+    fireEvent.pointerDown(frame, { pointerId: 1, clientX: 400, clientY: 75 });
+    expect(revealed()).toBe('inset(0 0 75% 0)');
+    fireEvent.pointerUp(frame, { pointerId: 1 });
+
+    // The divider moves the way the arrow points
+    fireEvent.keyDown(screen.getByRole('slider'), { key: 'ArrowDown' });
+    expect(screen.getByRole('slider').getAttribute('aria-valuenow')).toBe('26');
+    fireEvent.keyDown(screen.getByRole('slider'), { key: 'ArrowUp', shiftKey: true });
+    expect(screen.getByRole('slider').getAttribute('aria-valuenow')).toBe('16');
+    expect(screen.getByRole('slider').style.top).toBe('16%');
+  });
+
+  it('zooms every layer together around the wheel position', () => {
+    const { frame, zoom } = renderSlider();
+
+    // Zoom in 2x with the pointer over the right edge of the frame
+    fireEvent.wheel(frame, { deltaY: -Math.log(2) / 0.002, clientX: 500, clientY: 150 });
+    expect(zoom()).toBe('translate(-50%, 0%) scale(2)');
+    expect(screen.getByAltText('Original').style.transform).toBe(zoom());
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reset zoom' }));
+    expect(zoom()).toBe('translate(0%, 0%) scale(1)');
+  });
+
+  it('pans instead of moving the divider once zoomed', () => {
+    const { frame, revealed, zoom } = renderSlider();
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom in' }));
+
+    fireEvent.pointerDown(frame, { pointerId: 1, clientX: 150, clientY: 150 });
+    fireEvent.pointerMove(frame, { pointerId: 1, clientX: 190, clientY: 150 });
+    expect(revealed()).toBe('inset(0 50% 0 0)');
+    expect(zoom()).toBe('translate(10%, 0%) scale(1.5)');
+  });
+
+  it('flips to the original while held in flip mode', () => {
+    const { frame } = renderSlider();
+    fireEvent.click(screen.getByRole('radio', { name: 'Flip' }));
+    expect(screen.queryByRole('slider')).toBeNull();
+    expect(screen.getByText('AFTER')).toBeTruthy();
+
+    fireEvent.pointerDown(frame, { pointerId: 1, clientX: 200 });
+    expect(screen.getByText('BEFORE')).toBeTruthy();
+    fireEvent.pointerUp(frame, { pointerId: 1 });
+    expect(screen.getByText('AFTER')).toBeTruthy();
+
+    const hold = screen.getByRole('button', { name: 'Hold' });
+    fireEvent.keyDown(hold, { key: ' ' });
+    expect(hold.getAttribute('aria-pressed')).toBe('true');
+    fireEvent.keyUp(hold, { key: ' ' });
+    expect(hold.getAttribute('aria-pressed')).toBe('false');
+  });
+
+  it('shows both images side by side and as a difference overlay', () => {
+    renderSlider();
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Side' }));
+    expect(screen.getByText('BEFORE')).toBeTruthy();
+    expect(screen.getByText('AFTER')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Diff' }));
+    expect(screen.getByAltText('Generated').className).toContain('mix-blend-difference');
+  });
+
+  it('keeps the images left to right and speaks the page\'s language in RTL locales', () => {
+    const { container } = render(
+      <I18nProvider initialLocale="fa">
+        <ComparisonSlider originalImage="original.jpg" generatedImage="generated.jpg" />
+      </I18nProvider>
+    );
+
+    expect((container.firstElementChild as HTMLElement).dir).toBe('ltr');
+    expect(document.documentElement.dir).toBe('rtl');
+    expect(screen.getByText('اصلی')).toBeTruthy();
+    expect(screen.getByRole('slider').getAttribute('aria-valuetext')).toBe('۵۰٪ اصلی، ۵۰٪ بازسازی‌شده با هوش مصنوعی');
+  });
+});
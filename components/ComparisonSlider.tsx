@@ -1,107 +1,345 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
+import { DEFAULT_VIEWPORT, MAX_ZOOM, panViewport, toTransform, Viewport, zoomViewportAt } from '../utils/viewport';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
 interface ComparisonSliderProps {
   originalImage: string; // Data URL or URL
   generatedImage: string; // Data URL or URL
+  originalLabel?: string;
+  generatedLabel?: string;
   className?: string;
 }
 
-const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ originalImage, generatedImage, className = "" }) => {
-  const [sliderPosition, setSliderPosition] = useState(50);
-  const [isResizing, setIsResizing] = useState(false);
+// 'split' wipes left to right, 'wipe' top to bottom
+type CompareMode = 'split' | 'wipe' | 'side-by-side' | 'hold' | 'difference';
+
+const COMPARE_MODES: Array<{ mode: CompareMode; label: MessageKey; title: MessageKey }> = [
+  { mode: 'split', label: 'compare.split', title: 'compare.splitHint' },
+  { mode: 'wipe', label: 'compare.wipe', title: 'compare.wipeHint' },
+  { mode: 'side-by-side', label: 'compare.side', title: 'compare.sideHint' },
+  { mode: 'hold', label: 'compare.flip', title: 'compare.flipHint' },
+  { mode: 'difference', label: 'compare.diff', title: 'compare.diffHint' },
+];
+
+// Divider keyboard steps, in percent
+const KEY_STEP = 1;
+const KEY_PAGE_STEP = 10;
+// Zoom per wheel notch (deltaY of 100) and per button press
+const WHEEL_ZOOM_RATE = 0.002;
+const BUTTON_ZOOM_FACTOR = 1.5;
+// How close to the divider a drag grabs it once zoomed in; elsewhere a drag pans
+const DIVIDER_GRAB_PX = 24;
+
+type PointerPosition = { x: number; y: number };
+
+type Gesture =
+  | { kind: 'divider' }
+  | { kind: 'pan'; lastX: number; lastY: number }
+  | { kind: 'pinch'; startDistance: number; startViewport: Viewport };
+
+const Label: React.FC<{ text: string; className?: string }> = ({ text, className = 'top-4 left-4' }) => (
+  <div className={`absolute ${className} bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none z-10`}>
+    {text}
+  </div>
+);
+
+/**
+ * Compares the original and generated looks. Split mode is a keyboard-operable slider
+ * (arrows, Page Up/Down, Home/End) with the original on the left, and wipe mode the same
+ * slider standing up, with the original on top; side-by-side, hold-to-flip and difference
+ * modes are one click away. Wheel or pinch zooms, and dragging pans every
+ * view in sync so frame details can be checked at the same spot. The images stay laid out left
+ * to right in right-to-left languages too, so the divider moves the way the pointer does.
+ */
+const ComparisonSlider: React.FC<ComparisonSliderProps> = ({ originalImage, generatedImage, originalLabel: originalLabelProp, generatedLabel: generatedLabelProp, className = "" }) => {
+  const { t } = useI18n();
+  const originalLabel = originalLabelProp ?? t('compare.original');
+  const generatedLabel = generatedLabelProp ?? t('compare.generated');
+  const [sliderPosition, setSliderPosition] = useState(50); // Percent of the width (height when wiping) showing the original
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [isHolding, setIsHolding] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef(new Map<number, PointerPosition>());
+  const gestureRef = useRef<Gesture | null>(null);
+
+  const isZoomed = viewport.zoom > 1;
+  const hasDivider = mode === 'split' || mode === 'wipe';
+  const isVertical = mode === 'wipe';
+
+  // Side by side, each image has half the width; the pane under a point is where zoom centers
+  const getPane = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const width = mode === 'side-by-side' ? rect.width / 2 : rect.width;
+    const left = mode === 'side-by-side' && clientX >= rect.left + width ? rect.left + width : rect.left;
+    return { left, top: rect.top, width, height: rect.height };
+  };
+
+  const getFocus = (clientX: number, clientY: number) => {
+    const pane = getPane(clientX);
+    return { x: (clientX - pane.left) / pane.width - 0.5, y: (clientY - pane.top) / pane.height - 0.5 };
+  };
 
-  const handleMouseDown = () => setIsResizing(true);
-  const handleMouseUp = () => setIsResizing(false);
-  
-  const handleMouseMove = useCallback((e: MouseEvent | React.MouseEvent) => {
-    if (!isResizing || !containerRef.current) return;
-
-    const rect = containerRef.current.getBoundingClientRect();
-    const x = ('clientX' in e ? e.clientX : 0) - rect.left;
-    const newPos = Math.max(0, Math.min(100, (x / rect.width) * 100));
-    setSliderPosition(newPos);
-  }, [isResizing]);
-
-  const handleTouchMove = useCallback((e: TouchEvent | React.TouchEvent) => {
-    if (!isResizing || !containerRef.current) return;
-    const rect = containerRef.current.getBoundingClientRect();
-    const touch = 'touches' in e ? e.touches[0] : null;
-    if (!touch) return;
-    
-    const x = touch.clientX - rect.left;
-    const newPos = Math.max(0, Math.min(100, (x / rect.width) * 100));
-    setSliderPosition(newPos);
-  }, [isResizing]);
+  const moveDivider = (clientX: number, clientY: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const fraction = isVertical ? (clientY - rect.top) / rect.height : (clientX - rect.left) / rect.width;
+    setSliderPosition(Math.max(0, Math.min(100, fraction * 100)));
+  };
 
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
   useEffect(() => {
-    if (isResizing) {
-      window.addEventListener('mousemove', handleMouseMove as any);
-      window.addEventListener('mouseup', handleMouseUp);
-      window.addEventListener('touchmove', handleTouchMove as any);
-      window.addEventListener('touchend', handleMouseUp);
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const focus = getFocus(e.clientX, e.clientY);
+      setViewport(prev => zoomViewportAt(prev, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE), focus));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [mode]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pointers.size === 2) {
+      const [a, b] = Array.from<PointerPosition>(pointers.values());
+      gestureRef.current = { kind: 'pinch', startDistance: Math.hypot(a.x - b.x, a.y - b.y) || 1, startViewport: viewport };
+      return;
+    }
+
+    if (mode === 'hold') setIsHolding(true);
+    const rect = containerRef.current!.getBoundingClientRect();
+    const distanceToDivider = isVertical
+      ? Math.abs(e.clientY - (rect.top + (rect.height * sliderPosition) / 100))
+      : Math.abs(e.clientX - (rect.left + (rect.width * sliderPosition) / 100));
+    if (hasDivider && (!isZoomed || distanceToDivider <= DIVIDER_GRAB_PX)) {
+      gestureRef.current = { kind: 'divider' };
+      moveDivider(e.clientX, e.clientY);
     } else {
-      window.removeEventListener('mousemove', handleMouseMove as any);
-      window.removeEventListener('mouseup', handleMouseUp);
-      window.removeEventListener('touchmove', handleTouchMove as any);
-      window.removeEventListener('touchend', handleMouseUp);
+      gestureRef.current = { kind: 'pan', lastX: e.clientX, lastY: e.clientY };
     }
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove as any);
-      window.removeEventListener('mouseup', handleMouseUp);
-      window.removeEventListener('touchmove', handleTouchMove as any);
-      window.removeEventListener('touchend', handleMouseUp);
-    };
-  }, [isResizing, handleMouseMove, handleTouchMove]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    if (!pointers.has(e.pointerId)) return;
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const gesture = gestureRef.current;
+    if (gesture?.kind === 'divider') {
+      moveDivider(e.clientX, e.clientY);
+    } else if (gesture?.kind === 'pan') {
+      const pane = getPane(e.clientX);
+      setViewport(prev => panViewport(prev, (e.clientX - gesture.lastX) / pane.width, (e.clientY - gesture.lastY) / pane.height));
+      gestureRef.current = { kind: 'pan', lastX: e.clientX, lastY: e.clientY };
+    } else if (gesture?.kind === 'pinch' && pointers.size === 2) {
+      const [a, b] = Array.from<PointerPosition>(pointers.values());
+      const focus = getFocus((a.x + b.x) / 2, (a.y + b.y) / 2);
+      setViewport(zoomViewportAt(gesture.startViewport, Math.hypot(a.x - b.x, a.y - b.y) / gesture.startDistance, focus));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const pointers = pointersRef.current;
+    pointers.delete(e.pointerId);
+    if (pointers.size === 0) {
+      gestureRef.current = null;
+      setIsHolding(false);
+    } else if (gestureRef.current?.kind === 'pinch') {
+      // One finger lifted; the other carries on panning
+      const [rest] = Array.from<PointerPosition>(pointers.values());
+      gestureRef.current = { kind: 'pan', lastX: rest.x, lastY: rest.y };
+    }
+  };
+
+  const handleSliderKeyDown = (e: React.KeyboardEvent) => {
+    // Standing up, the divider moves the way the arrow points: down reveals more of the original
+    const steps: Record<string, number> = isVertical
+      ? { ArrowUp: -KEY_STEP, ArrowLeft: -KEY_STEP, ArrowDown: KEY_STEP, ArrowRight: KEY_STEP, PageUp: -KEY_PAGE_STEP, PageDown: KEY_PAGE_STEP }
+      : { ArrowLeft: -KEY_STEP, ArrowDown: -KEY_STEP, ArrowRight: KEY_STEP, ArrowUp: KEY_STEP, PageDown: -KEY_PAGE_STEP, PageUp: KEY_PAGE_STEP };
+    let next: number;
+    if (e.key === 'Home') next = 0;
+    else if (e.key === 'End') next = 100;
+    else if (e.key in steps) next = sliderPosition + steps[e.key] * (e.shiftKey ? KEY_PAGE_STEP : 1);
+    else return;
+
+    e.preventDefault();
+    setSliderPosition(Math.max(0, Math.min(100, next)));
+  };
+
+  const handleHoldKey = (e: React.KeyboardEvent, isDown: boolean) => {
+    if (e.key !== ' ' && e.key !== 'Enter') return;
+    e.preventDefault();
+    if (!e.repeat) setIsHolding(isDown);
+  };
+
+  const changeMode = (next: CompareMode) => {
+    setMode(next);
+    setIsHolding(false);
+  };
+
+  const transform = { transform: toTransform(viewport) };
+  const imageClassName = "absolute inset-0 w-full h-full object-cover pointer-events-none origin-center";
+  const position = Math.round(sliderPosition);
+  const toolButtonClassName = "w-12 py-1 rounded-full transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:opacity-40";
 
   return (
-    <div 
+    <div
       ref={containerRef}
-      className={`relative w-full h-full overflow-hidden select-none group cursor-ew-resize ${className}`}
-      onMouseDown={handleMouseDown}
-      onTouchStart={handleMouseDown}
+      dir="ltr"
+      className={`relative w-full h-full overflow-hidden select-none touch-none group ${
+        hasDivider && !isZoomed ? (isVertical ? 'cursor-ns-resize' : 'cursor-ew-resize') : isZoomed ? 'cursor-grab' : 'cursor-pointer'
+      } ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => setViewport(DEFAULT_VIEWPORT)}
     >
-      {/* Base Image (Original) */}
-      <img 
-        src={originalImage} 
-        alt="Original" 
-        className="absolute top-0 left-0 w-full h-full object-cover pointer-events-none"
-      />
-
-      {/* Overlay Image (Generated) - Clipped */}
-      <div 
-        className="absolute top-0 left-0 h-full w-full overflow-hidden pointer-events-none"
-        style={{ width: `${sliderPosition}%` }}
-      >
-        <img 
-          src={generatedImage} 
-          alt="Generated" 
-          className="absolute top-0 left-0 max-w-none h-full object-cover"
-          style={{ width: containerRef.current ? containerRef.current.offsetWidth : '100%' }} 
-        />
-      </div>
+      {mode === 'side-by-side' ? (
+        <div className="absolute inset-0 flex">
+          {[{ key: 'original', src: originalImage, alt: t('compare.originalAlt'), label: originalLabel }, { key: 'generated', src: generatedImage, alt: t('compare.generatedAlt'), label: generatedLabel }].map(pane => (
+            <div key={pane.key} className="relative w-1/2 h-full overflow-hidden first:border-r-2 border-white">
+              <img src={pane.src} alt={pane.alt} className={imageClassName} style={transform} draggable={false} />
+              <Label text={pane.label} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* Base image: the generated look, or the original under the difference blend */}
+          <img
+            src={mode === 'difference' || (mode === 'hold' && isHolding) ? originalImage : generatedImage}
+            alt={mode === 'difference' || (mode === 'hold' && isHolding) ? t('compare.originalAlt') : t('compare.generatedAlt')}
+            className={imageClassName}
+            style={transform}
+            draggable={false}
+          />
+
+          {hasDivider && (
+            // Clipped outside the zoom so the divider stays where it is on screen
+            <div
+              className="absolute inset-0 overflow-hidden pointer-events-none"
+              style={{ clipPath: isVertical ? `inset(0 0 ${100 - sliderPosition}% 0)` : `inset(0 ${100 - sliderPosition}% 0 0)` }}
+            >
+              <img src={originalImage} alt={t('compare.originalAlt')} className={imageClassName} style={transform} draggable={false} />
+            </div>
+          )}
+
+          {mode === 'difference' && (
+            <img src={generatedImage} alt={t('compare.generatedAlt')} className={`${imageClassName} mix-blend-difference`} style={transform} draggable={false} />
+          )}
+        </>
+      )}
 
       {/* Slider Handle */}
-      <div 
-        className="absolute top-0 bottom-0 w-1 bg-white shadow-[0_0_10px_rgba(0,0,0,0.5)] pointer-events-none z-10 flex items-center justify-center"
-        style={{ left: `${sliderPosition}%` }}
-      >
-        <div className="w-8 h-8 bg-white rounded-full shadow-lg flex items-center justify-center text-gray-600 -ml-[14px]">
-          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
-            <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 15L12 18.75 15.75 15m-7.5-6L12 5.25 15.75 9" />
-          </svg>
+      {hasDivider && (
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label={t('compare.divider')}
+          aria-orientation={isVertical ? 'vertical' : 'horizontal'}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={position}
+          aria-valuetext={t('compare.dividerValue', {
+            originalPercent: position, original: originalLabel.toLowerCase(), generatedPercent: 100 - position, generated: generatedLabel.toLowerCase()
+          })}
+          onKeyDown={handleSliderKeyDown}
+          className={`absolute ${isVertical ? 'left-0 right-0 h-1 -mt-0.5' : 'top-0 bottom-0 w-1 -ml-0.5'} bg-white shadow-[0_0_10px_rgba(0,0,0,0.5)] z-10 flex items-center justify-center focus:outline-none focus-visible:ring-4 focus-visible:ring-primary`}
+          style={isVertical ? { top: `${sliderPosition}%` } : { left: `${sliderPosition}%` }}
+        >
+          <div className="w-8 h-8 bg-white rounded-full shadow-lg flex items-center justify-center text-gray-600 flex-shrink-0">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 ${isVertical ? '' : 'rotate-90'}`}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M8.25 15L12 18.75 15.75 15m-7.5-6L12 5.25 15.75 9" />
+            </svg>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Labels */}
-      <div className="absolute top-4 left-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none">
-        AI RECONSTRUCTED
-      </div>
-      <div className="absolute top-4 right-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none">
-        ORIGINAL
+      {mode === 'split' && (
+        <>
+          <Label text={originalLabel} />
+          <Label text={generatedLabel} className="top-4 right-4" />
+        </>
+      )}
+      {mode === 'wipe' && (
+        <>
+          <Label text={originalLabel} />
+          <Label text={generatedLabel} className="bottom-4 left-4" />
+        </>
+      )}
+      {mode === 'hold' && <Label text={isHolding ? originalLabel : generatedLabel} />}
+      {mode === 'difference' && <Label text={t('compare.difference', { original: originalLabel, generated: generatedLabel })} />}
+
+      {/* Modes & Zoom */}
+      <div
+        className="absolute right-4 top-1/2 -translate-y-1/2 z-20 flex flex-col items-center space-y-1 bg-white/95 rounded-full shadow-lg ring-1 ring-slate-900/5 p-1 text-[11px] font-semibold text-slate-700"
+        onPointerDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        <div role="radiogroup" aria-label={t('compare.modes')} className="flex flex-col space-y-1">
+          {COMPARE_MODES.map(option => (
+            <button
+              key={option.mode}
+              role="radio"
+              aria-checked={mode === option.mode}
+              title={t(option.title)}
+              onClick={() => changeMode(option.mode)}
+              className={`${toolButtonClassName} ${mode === option.mode ? 'bg-primary text-white' : 'hover:bg-slate-100'}`}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+        {mode === 'hold' && (
+          <button
+            onPointerDown={() => setIsHolding(true)}
+            onPointerUp={() => setIsHolding(false)}
+            onPointerLeave={() => setIsHolding(false)}
+            onKeyDown={(e) => handleHoldKey(e, true)}
+            onKeyUp={(e) => handleHoldKey(e, false)}
+            onBlur={() => setIsHolding(false)}
+            aria-pressed={isHolding}
+            className={`${toolButtonClassName} bg-slate-100 hover:bg-slate-200`}
+          >
+            {t('compare.hold')}
+          </button>
+        )}
+        <div className="w-8 border-t border-slate-200" />
+        <button
+          onClick={() => setViewport(prev => zoomViewportAt(prev, BUTTON_ZOOM_FACTOR))}
+          disabled={viewport.zoom >= MAX_ZOOM}
+          aria-label={t('compare.zoomIn')}
+          className={`${toolButtonClassName} hover:bg-slate-100 text-sm`}
+        >
+          +
+        </button>
+        <button
+          onClick={() => setViewport(DEFAULT_VIEWPORT)}
+          disabled={!isZoomed}
+          aria-label={t('compare.resetZoom')}
+          title={t('compare.resetZoomHint')}
+          className={`${toolButtonClassName} hover:bg-slate-100 tabular-nums`}
+        >
+          {Math.round(viewport.zoom * 100)}%
+        </button>
+        <button
+          onClick={() => setViewport(prev => zoomViewportAt(prev, 1 / BUTTON_ZOOM_FACTOR))}
+          disabled={!isZoomed}
+          aria-label={t('compare.zoomOut')}
+          className={`${toolButtonClassName} hover:bg-slate-100 text-sm`}
+        >
+          −
+        </button>
       </div>
     </div>
   );
 };
 
-export default ComparisonSlider;
\ No newline at end of file
+export default ComparisonSlider;
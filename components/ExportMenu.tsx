@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { useI18n } from './I18nProvider';
+
+interface ExportMenuProps {
+  canExportImage: boolean; // A look is selected, so there's a before/after to render
+  starredCount: number;
+  onExportImage: () => void;
+  onExportLookbook: () => void;
+  onExportBundle: () => void;
+  disabled?: boolean;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ canExportImage, starredCount, onExportImage, onExportLookbook, onExportBundle, disabled = false }) => {
+  const { t, plural } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const options = [
+    { label: t('export.image'), hint: t(canExportImage ? 'export.imageHint' : 'export.imageNeedsLook'), enabled: canExportImage, action: onExportImage },
+    { label: t('export.lookbook'), hint: starredCount > 0 ? plural('export.starredLooks', starredCount) : t('export.lookbookNeedsStars'), enabled: starredCount > 0, action: onExportLookbook },
+    { label: t('export.bundle'), hint: t('export.bundleHint'), enabled: true, action: onExportBundle },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="bg-white text-slate-700 px-3 py-1.5 rounded-full shadow-md ring-1 ring-slate-900/5 text-xs font-medium flex items-center space-x-1 hover:text-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+        </svg>
+        <span>{t('export.menu')}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-60 bg-white rounded-xl shadow-xl ring-1 ring-slate-900/5 py-1 z-40">
+          {options.map(option => (
+            <button
+              key={option.label}
+              onClick={() => { setIsOpen(false); option.action(); }}
+              disabled={!option.enabled}
+              className="w-full text-left px-4 py-2 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+            >
+              <p className="text-sm font-medium text-slate-800">{option.label}</p>
+              <p className="text-xs text-slate-500">{option.hint}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { FaceProfile } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface FaceProfileCardProps {
+  profile: FaceProfile | null;
+  isAnalyzing: boolean;
+  error?: string | null;
+}
+
+const FaceProfileCard: React.FC<FaceProfileCardProps> = ({ profile, isAnalyzing, error }) => {
+  const { t, term } = useI18n();
+
+  if (isAnalyzing) {
+    return (
+      <div className="rounded-xl border border-slate-200 p-4 flex items-center space-x-3">
+        <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        <p className="text-sm text-slate-500">{t('face.analyzing')}</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-xl border border-slate-200 p-4">
+        <p className="text-xs text-slate-500">{error}</p>
+      </div>
+    );
+  }
+
+  if (!profile) return null;
+
+  const traits = [
+    { label: t('face.shape'), value: term('faceShape', profile.faceShape) },
+    { label: t('face.undertone'), value: term('undertone', profile.skinUndertone) },
+    { label: t('face.browLine'), value: term('browLine', profile.browLine) },
+    { label: t('face.width'), value: t('face.widthValue', { width: term('faceWidth', profile.faceWidth), mm: Math.round(profile.estimatedFaceWidthMm) }) },
+  ];
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-gradient-to-br from-white to-sky-50 p-4 space-y-3">
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {traits.map(trait => (
+          <div key={trait.label}>
+            <dt className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{trait.label}</dt>
+            <dd className="text-sm font-medium text-slate-800 capitalize">{trait.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <p className="text-xs text-slate-600 leading-relaxed">{profile.summary}</p>
+
+      <div className="space-y-1.5">
+        {profile.recommendedFrames.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {profile.recommendedFrames.map(family => (
+              <span key={family} className="text-[11px] bg-emerald-50 text-emerald-700 border border-emerald-200 px-2 py-0.5 rounded-full capitalize">
+                ✓ {term('shape', family)}
+              </span>
+            ))}
+          </div>
+        )}
+        {profile.discouragedFrames.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {profile.discouragedFrames.map(family => (
+              <span key={family} className="text-[11px] bg-slate-50 text-slate-500 border border-slate-200 px-2 py-0.5 rounded-full capitalize">
+                ✕ {term('shape', family)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FaceProfileCard;
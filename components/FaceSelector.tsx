@@ -0,0 +1,54 @@
+import React from 'react';
+import { DetectedFace } from '../types';
+import { formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface FaceSelectorProps {
+  image: string;
+  faces: DetectedFace[];
+  selectedIds: string[];
+  onToggle: (faceId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The user's photo at its natural aspect ratio with a numbered, clickable box over each face.
+ */
+const FaceSelector: React.FC<FaceSelectorProps> = ({ image, faces, selectedIds, onToggle, disabled = false }) => {
+  const { t, locale } = useI18n();
+
+  return (
+    <div className="relative">
+      <img src={image} alt={t('photo.alt')} className="w-full h-auto block" />
+      {faces.map((face, i) => {
+        const isSelected = selectedIds.includes(face.id);
+        return (
+          <button
+            key={face.id}
+            onClick={() => onToggle(face.id)}
+            disabled={disabled}
+            aria-pressed={isSelected}
+            title={t(isSelected ? 'face.selected' : 'face.select', { number: i + 1 })}
+            className={`absolute rounded-lg border-2 transition-colors disabled:cursor-not-allowed ${
+              isSelected ? 'border-primary bg-primary/15' : 'border-white/80 border-dashed hover:bg-white/10'
+            }`}
+            style={{
+              left: `${face.box.x * 100}%`,
+              top: `${face.box.y * 100}%`,
+              width: `${face.box.width * 100}%`,
+              height: `${face.box.height * 100}%`
+            }}
+          >
+            <span className={`absolute -top-2.5 -left-2.5 w-5 h-5 rounded-full text-[10px] font-bold flex items-center justify-center shadow ${
+              isSelected ? 'bg-primary text-white' : 'bg-white text-slate-700'
+            }`}>
+              {formatNumber(locale, i + 1)}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FaceSelector;
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { CatalogFilters, CatalogFrame, FrameColorVariant, FrameFit, StyleSuitability } from '../types';
+import { filterCatalog, getFilterOptions, getFrameName } from '../services/catalogService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface FrameCatalogProps {
+  frames: CatalogFrame[];
+  rateFrame: (frame: CatalogFrame) => StyleSuitability;
+  fitFor?: (frame: CatalogFrame) => FrameFit | null; // Null until the user has measured
+  onTryOn: (frame: CatalogFrame, variant: FrameColorVariant) => void;
+  isBatchMode?: boolean;
+  selectedSkus?: string[];
+  onToggleSelect?: (sku: string) => void;
+  disabled?: boolean;
+}
+
+// Recommended frames first, discouraged last
+const SUITABILITY_ORDER: Record<StyleSuitability, number> = { recommended: 0, neutral: 1, discouraged: 2 };
+
+const PRICE_LIMITS = [100, 150, 200];
+
+const FIT_LABELS: Record<Exclude<FrameFit, 'good'>, MessageKey> = { 'too-narrow': 'catalog.tooNarrow', 'too-wide': 'catalog.tooWide' };
+const FIT_HINTS: Record<FrameFit, MessageKey> = { 'too-narrow': 'catalog.tooNarrowForFace', good: 'catalog.fits', 'too-wide': 'catalog.tooWideForFace' };
+
+const FrameCatalog: React.FC<FrameCatalogProps> = ({ frames, rateFrame, fitFor, onTryOn, isBatchMode = false, selectedSkus = [], onToggleSelect, disabled = false }) => {
+  const { t, term, formatCurrency } = useI18n();
+  const [filters, setFilters] = useState<CatalogFilters>({ query: '' });
+  const [expandedSku, setExpandedSku] = useState<string | null>(null);
+  const [variantBySku, setVariantBySku] = useState<Record<string, string>>({});
+
+  const { shapes, materials } = useMemo(() => getFilterOptions(frames), [frames]);
+  const results = filterCatalog(frames, filters).sort((a, b) => SUITABILITY_ORDER[rateFrame(a)] - SUITABILITY_ORDER[rateFrame(b)]);
+
+  const updateFilters = (patch: Partial<CatalogFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const formatPrice = (price: number, currency: string) => formatCurrency(price, currency, { maximumFractionDigits: 0 });
+
+  const selectClassName = "text-xs border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-600 outline-none focus:border-primary capitalize";
+
+  return (
+    <div className="space-y-3">
+      {/* Search & Filters */}
+      <input
+        type="search"
+        value={filters.query}
+        onChange={(e) => updateFilters({ query: e.target.value })}
+        placeholder={t('catalog.search')}
+        className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 outline-none focus:border-primary focus:ring-2 focus:ring-primary/20"
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <select value={filters.shape ?? ''} onChange={(e) => updateFilters({ shape: e.target.value || undefined })} className={selectClassName}>
+          <option value="">{t('catalog.anyShape')}</option>
+          {shapes.map(shape => <option key={shape} value={shape}>{term('shape', shape)}</option>)}
+        </select>
+        <select value={filters.material ?? ''} onChange={(e) => updateFilters({ material: e.target.value || undefined })} className={selectClassName}>
+          <option value="">{t('catalog.anyMaterial')}</option>
+          {materials.map(material => <option key={material} value={material}>{term('material', material)}</option>)}
+        </select>
+        <select
+          value={filters.maxPrice ?? ''}
+          onChange={(e) => updateFilters({ maxPrice: e.target.value ? Number(e.target.value) : undefined })}
+          className={selectClassName}
+        >
+          <option value="">{t('catalog.anyPrice')}</option>
+          {PRICE_LIMITS.map(limit => <option key={limit} value={limit}>{t('catalog.under', { price: formatPrice(limit, 'USD') })}</option>)}
+        </select>
+      </div>
+      <p className="text-xs text-slate-400">{t('catalog.count', { shown: results.length, total: frames.length })}</p>
+
+      {/* Results */}
+      <div className="space-y-2">
+        {results.map(frame => {
+          const suitability = rateFrame(frame);
+          const fit = fitFor?.(frame) ?? null;
+          const isExpanded = expandedSku === frame.sku && !isBatchMode;
+          const isPicked = isBatchMode && selectedSkus.includes(frame.sku);
+          const variant = frame.colors.find(c => c.id === variantBySku[frame.sku]) ?? frame.colors[0];
+
+          return (
+            <div
+              key={frame.sku}
+              className={`rounded-lg border bg-white transition-all ${
+                isPicked ? 'border-primary ring-2 ring-primary/30' : suitability === 'recommended' ? 'border-emerald-300' : 'border-slate-200'
+              } ${suitability === 'discouraged' ? 'opacity-70' : ''}`}
+            >
+              <button
+                onClick={() => (isBatchMode ? onToggleSelect?.(frame.sku) : setExpandedSku(isExpanded ? null : frame.sku))}
+                disabled={disabled}
+                className="w-full flex items-center space-x-3 p-2 text-left disabled:cursor-not-allowed"
+              >
+                {isBatchMode && (
+                  <span className={`w-4 h-4 flex-shrink-0 rounded border flex items-center justify-center text-[10px] ${isPicked ? 'bg-primary border-primary text-white' : 'border-slate-300'}`}>
+                    {isPicked && '✓'}
+                  </span>
+                )}
+                <img src={frame.imageUrl} alt={getFrameName(frame)} className="w-16 h-8 object-contain flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-800 truncate">{frame.model}</p>
+                  <p className="text-xs text-slate-500 truncate capitalize">{frame.brand} · {term('shape', frame.shape)} · {term('material', frame.material)}</p>
+                </div>
+                <div className="flex-shrink-0 text-right">
+                  <p className="text-sm font-semibold text-slate-800">{formatPrice(frame.price, frame.currency)}</p>
+                  {suitability === 'recommended' && <p className="text-[10px] font-bold text-emerald-600">{t('catalog.bestFit')}</p>}
+                  {suitability === 'discouraged' && <p className="text-[10px] font-bold text-slate-400">{t('catalog.lessFlattering')}</p>}
+                  {fit && fit !== 'good' && <p className="text-[10px] font-bold text-amber-600">{t(FIT_LABELS[fit])}</p>}
+                </div>
+              </button>
+
+              {isExpanded && (
+                <div className="border-t border-slate-100 p-3 space-y-3">
+                  <div className="flex items-center space-x-2">
+                    {frame.colors.map(color => (
+                      <button
+                        key={color.id}
+                        onClick={() => setVariantBySku(prev => ({ ...prev, [frame.sku]: color.id }))}
+                        title={color.name}
+                        className={`w-6 h-6 rounded-full border-2 transition-all ${color.id === variant.id ? 'border-primary scale-110' : 'border-white ring-1 ring-slate-200'}`}
+                        style={{ backgroundColor: color.hex }}
+                      />
+                    ))}
+                    <span className="text-xs text-slate-600">{variant.name}</span>
+                  </div>
+
+                  <dl className="grid grid-cols-3 gap-2 text-center">
+                    {[
+                      { label: t('catalog.lens'), value: frame.lensWidthMm },
+                      { label: t('catalog.bridge'), value: frame.bridgeMm },
+                      { label: t('catalog.temple'), value: frame.templeLengthMm },
+                    ].map(size => (
+                      <div key={size.label} className="bg-slate-50 rounded-md py-1">
+                        <dt className="text-[10px] uppercase tracking-wider text-slate-400">{size.label}</dt>
+                        <dd className="text-xs font-medium text-slate-700">{t('units.mm', { value: size.value })}</dd>
+                      </div>
+                    ))}
+                  </dl>
+
+                  <div className="flex items-center justify-between">
+                    <a href={frame.retailerUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-slate-500 hover:text-primary">
+                      {t('catalog.viewProduct')}
+                    </a>
+                    <button
+                      onClick={() => onTryOn(frame, variant)}
+                      disabled={disabled}
+                      className="text-sm font-medium text-white bg-primary hover:bg-sky-600 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {t('catalog.tryOn')}
+                    </button>
+                  </div>
+                  {fit && (
+                    <p className={`text-xs ${fit === 'good' ? 'text-emerald-600' : 'text-amber-600'}`}>
+                      {t(FIT_HINTS[fit])}
+                    </p>
+                  )}
+                  <p className="text-[10px] text-slate-400">{t('catalog.sku', { sku: frame.sku })}</p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {results.length === 0 && (
+          <p className="text-xs text-slate-400 text-center py-4">{t('catalog.noMatches')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FrameCatalog;
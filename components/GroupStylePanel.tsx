@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { DetectedFace, FaceStyleAssignment, GroupEditMode } from '../types';
+import { getFaceNumber } from '../services/groupService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface GroupStylePanelProps {
+  faces: DetectedFace[];
+  selectedIds: string[];
+  onApply: (assignments: FaceStyleAssignment[], mode: GroupEditMode) => void;
+  disabled?: boolean;
+}
+
+const MODE_LABELS: Record<GroupEditMode, MessageKey> = { 'single-pass': 'group.modeSinglePass', 'sequential': 'group.modeSequential' };
+
+const GroupStylePanel: React.FC<GroupStylePanelProps> = ({ faces, selectedIds, onApply, disabled = false }) => {
+  const { t, plural } = useI18n();
+  const [styles, setStyles] = useState<Record<string, string>>({});
+  const [mode, setMode] = useState<GroupEditMode>('single-pass');
+
+  // Keep the photo's left-to-right order regardless of the order faces were picked in
+  const selected = faces.filter(f => selectedIds.includes(f.id));
+  const assignments = selected.map(f => ({ faceId: f.id, prompt: (styles[f.id] ?? '').trim() }));
+  const canApply = assignments.length > 0 && assignments.every(a => a.prompt);
+  const firstStyle = assignments.find(a => a.prompt)?.prompt;
+
+  const faceLabel = (faceId: string) => t('face.person', { number: getFaceNumber(faces, faceId) });
+
+  const matchAll = () => {
+    if (!firstStyle) return;
+    setStyles(prev => ({ ...prev, ...Object.fromEntries(selected.map(f => [f.id, firstStyle])) }));
+  };
+
+  if (selected.length === 0) {
+    return <p className="text-xs text-slate-500">{t('group.tapFace')}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {selected.map(face => (
+        <label key={face.id} className="block">
+          <span className="text-xs font-medium text-slate-600">{faceLabel(face.id)}</span>
+          <input
+            type="text"
+            value={styles[face.id] ?? ''}
+            onChange={(e) => setStyles(prev => ({ ...prev, [face.id]: e.target.value }))}
+            placeholder={t('group.stylePlaceholder')}
+            disabled={disabled}
+            className="mt-1 w-full text-sm border border-slate-200 rounded-lg px-3 py-2 outline-none focus:border-primary focus:ring-2 focus:ring-primary/20"
+          />
+        </label>
+      ))}
+
+      {selected.length > 1 && (
+        <>
+          <button
+            onClick={matchAll}
+            disabled={disabled || !firstStyle}
+            className="text-xs text-primary hover:text-sky-600 disabled:text-slate-300 disabled:cursor-not-allowed"
+          >
+            {t('group.matchAll')}
+          </button>
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            {(Object.keys(MODE_LABELS) as GroupEditMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`flex-1 text-xs py-1.5 rounded-md transition-colors ${mode === m ? 'bg-white shadow-sm text-slate-900 font-medium' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {t(MODE_LABELS[m])}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400">
+            {t(mode === 'single-pass' ? 'group.singlePassHint' : 'group.sequentialHint')}
+          </p>
+        </>
+      )}
+
+      <button
+        onClick={() => onApply(assignments, mode)}
+        disabled={disabled || !canApply}
+        className="w-full py-2.5 bg-primary hover:bg-sky-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+      >
+        {selected.length === 1 ? t('group.stylePerson', { person: faceLabel(selected[0].id) }) : plural('group.stylePeople', selected.length)}
+      </button>
+    </div>
+  );
+};
+
+export default GroupStylePanel;
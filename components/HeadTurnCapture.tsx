@@ -0,0 +1,188 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { formatNumber, MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface HeadTurnCaptureProps {
+  onClip: (clip: Blob, mirrored: boolean) => void;
+  disabled?: boolean;
+  recordSeconds?: number;
+  countdownSeconds?: number;
+}
+
+type Phase = 'idle' | 'countdown' | 'recording';
+
+// Prompts shown while recording, spread evenly over the clip
+const TURN_STEPS: MessageKey[] = ['headTurn.lookStraight', 'headTurn.turnLeft', 'headTurn.turnRight', 'headTurn.backToFront'];
+
+/**
+ * Records a short head-turn clip from the front camera, or takes an uploaded video.
+ */
+const HeadTurnCapture: React.FC<HeadTurnCaptureProps> = ({ onClip, disabled = false, recordSeconds = 4, countdownSeconds = 3 }) => {
+  const { t, locale } = useI18n();
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [countdown, setCountdown] = useState(countdownSeconds);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stopStream = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const startCamera = async () => {
+      if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+        setError('headTurn.unsupported');
+        setIsStarting(false);
+        return;
+      }
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 960 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+        }
+      } catch (err) {
+        console.error("Error starting camera:", err);
+        if (!cancelled) setError('headTurn.accessFailed');
+      } finally {
+        if (!cancelled) setIsStarting(false);
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+      // Leaving mid-recording discards the clip
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
+      }
+      stopStream();
+    };
+  }, [stopStream]);
+
+  const startRecording = useCallback(() => {
+    const stream = streamRef.current;
+    if (!stream) return;
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(stream);
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = () => {
+      setPhase('idle');
+      if (chunks.length) onClip(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }), true);
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setElapsed(0);
+    setPhase('recording');
+  }, [onClip]);
+
+  // Countdown, then a fixed-length recording
+  useEffect(() => {
+    if (phase === 'countdown') {
+      if (countdown === 0) {
+        startRecording();
+        return;
+      }
+      const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+    if (phase === 'recording') {
+      if (elapsed >= recordSeconds) {
+        recorderRef.current?.stop();
+        return;
+      }
+      const timer = setTimeout(() => setElapsed(elapsed + 1), 1000);
+      return () => clearTimeout(timer);
+    }
+  }, [phase, countdown, elapsed, recordSeconds, startRecording]);
+
+  const handleRecord = () => {
+    setCountdown(countdownSeconds);
+    setPhase('countdown');
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onClip(file, false);
+  };
+
+  const step = TURN_STEPS[Math.min(TURN_STEPS.length - 1, Math.floor((elapsed / recordSeconds) * TURN_STEPS.length))];
+
+  return (
+    <div className="w-full max-w-md rounded-2xl overflow-hidden shadow-2xl ring-1 ring-slate-900/5 bg-slate-900">
+      <div className="relative aspect-[3/4] bg-black">
+        <video ref={videoRef} playsInline muted className="w-full h-full object-cover -scale-x-100" />
+
+        {phase === 'countdown' && countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="text-6xl font-bold text-white drop-shadow-lg">{formatNumber(locale, countdown)}</span>
+          </div>
+        )}
+        {phase === 'recording' && (
+          <>
+            <span className="absolute top-3 left-3 flex items-center space-x-1.5 bg-black/50 text-white text-xs font-medium px-2 py-1 rounded-full">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              <span>{t('headTurn.secondsLeft', { seconds: recordSeconds - elapsed })}</span>
+            </span>
+            <p className="absolute bottom-4 inset-x-0 text-center text-base font-semibold text-white drop-shadow-lg pointer-events-none">{t(step)}</p>
+          </>
+        )}
+        {phase === 'idle' && !error && !isStarting && (
+          <p className="absolute bottom-4 inset-x-6 text-center text-xs font-medium text-white/90 pointer-events-none">
+            {t('headTurn.instructions')}
+          </p>
+        )}
+        {isStarting && !error && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        )}
+        {error && (
+          <div className="absolute inset-0 flex items-center justify-center p-6">
+            <p className="text-sm text-white text-center">{t(error)}</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between p-3 bg-white">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || phase !== 'idle'}
+          className="text-sm font-medium text-slate-600 hover:text-primary px-2 py-1 disabled:opacity-50"
+        >
+          {t('headTurn.upload')}
+        </button>
+        <input ref={fileInputRef} type="file" accept="video/*" className="hidden" onChange={handleFileChange} />
+        <button
+          onClick={handleRecord}
+          disabled={disabled || !!error || isStarting || phase !== 'idle'}
+          title={t('headTurn.record', { seconds: recordSeconds })}
+          className="w-12 h-12 rounded-full border-4 border-red-500 bg-white hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        />
+        <span className="text-xs text-slate-400 w-24 text-right">{t('headTurn.length', { seconds: recordSeconds })}</span>
+      </div>
+    </div>
+  );
+};
+
+export default HeadTurnCapture;
@@ -0,0 +1,59 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, StylistLocale } from '../types';
+import {
+  DEFAULT_LOCALE, detectCountry, formatCurrency, getLocaleInfo, getStylistLocale, loadLocale, saveLocale,
+  translate, translatePlural, translateTerm, MessageKey, MessageVariables, PluralKey
+} from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, variables?: MessageVariables) => string;
+  plural: (key: PluralKey, count: number, variables?: MessageVariables) => string;
+  term: (group: string, value: string) => string; // A data value such as a frame shape
+  formatCurrency: (amount: number, currency: string, options?: { maximumFractionDigits?: number }) => string;
+  stylistLocale: StylistLocale; // Reply language and shopping country for the stylist
+}
+
+const createValue = (locale: Locale, country: string, setLocale: (locale: Locale) => void): I18nContextValue => ({
+  locale,
+  dir: getLocaleInfo(locale).dir,
+  setLocale,
+  t: (key, variables) => translate(locale, key, variables),
+  plural: (key, count, variables) => translatePlural(locale, key, count, variables),
+  term: (group, value) => translateTerm(locale, group, value),
+  formatCurrency: (amount, currency, options) => formatCurrency(locale, amount, currency, options),
+  stylistLocale: getStylistLocale(locale, country)
+});
+
+// Without a provider (e.g. a component rendered on its own in a test) everything is in English
+const I18nContext = createContext<I18nContextValue>(
+  createValue(DEFAULT_LOCALE, getLocaleInfo(DEFAULT_LOCALE).defaultCountry, () => {})
+);
+
+/**
+ * Holds the UI language, remembered across visits, and mirrors it onto <html lang dir> so
+ * Persian and Arabic lay out right to left.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode; initialLocale?: Locale }> = ({ children, initialLocale }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => initialLocale ?? loadLocale());
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  const country = detectCountry(languages, locale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  }, []);
+
+  const value = useMemo(() => createValue(locale, country, setLocale), [locale, country, setLocale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = value.dir;
+  }, [locale, value.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
@@ -1,4 +1,6 @@
 import React, { useCallback, useState } from 'react';
+import { processImageFile } from '../utils/imageUtils';
+import { useI18n } from './I18nProvider';
 
 interface ImageUploaderProps {
   onImageSelected: (base64: string) => void;
@@ -7,64 +9,17 @@ interface ImageUploaderProps {
   compact?: boolean;
 }
 
-const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, label = "Upload Photo", subLabel = "Drag & drop or click", compact = false }) => {
+const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, label, subLabel, compact = false }) => {
+  const { t } = useI18n();
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const processImage = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-          
-          // Resize to max 1024x1024 to prevent large payloads causing RPC errors
-          const MAX_SIZE = 1024;
-          if (width > height) {
-            if (width > MAX_SIZE) {
-              height *= MAX_SIZE / width;
-              width = MAX_SIZE;
-            }
-          } else {
-            if (height > MAX_SIZE) {
-              width *= MAX_SIZE / height;
-              height = MAX_SIZE;
-            }
-          }
-
-          canvas.width = width;
-          canvas.height = height;
-          
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-             resolve(event.target?.result as string);
-             return;
-          }
-          
-          // Draw on canvas
-          ctx.drawImage(img, 0, 0, width, height);
-          
-          // Convert to JPEG with 0.8 quality for compression
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
-          resolve(dataUrl);
-        };
-        img.onerror = (e) => reject(e);
-        img.src = event.target?.result as string;
-      };
-      reader.onerror = (e) => reject(e);
-      reader.readAsDataURL(file);
-    });
-  };
-
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setIsProcessing(true);
       try {
         // Process (resize/compress) the image before sending up
-        const base64String = await processImage(file);
+        const base64String = await processImageFile(file);
         onImageSelected(base64String);
       } catch (error) {
         console.error("Error processing image:", error);
@@ -102,8 +57,8 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, label =
             </svg>
           </div>
         )}
-        <p className="text-sm font-semibold text-slate-700">{isProcessing ? 'Processing...' : label}</p>
-        {!compact && !isProcessing && <p className="text-xs text-slate-500 mt-1">{subLabel}</p>}
+        <p className="text-sm font-semibold text-slate-700">{isProcessing ? t('uploader.processing') : label ?? t('uploader.label')}</p>
+        {!compact && !isProcessing && <p className="text-xs text-slate-500 mt-1">{subLabel ?? t('uploader.subLabel')}</p>}
       </div>
     </div>
   );
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { LensOptions } from '../types';
+import {
+  DEFAULT_LENS_OPTIONS, LENS_INDICES, TINT_COLORS, SPH_RANGE, CYL_RANGE,
+  estimateLensThickness, formatDiopters
+} from '../services/lensService';
+import { formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface LensPanelProps {
+  frameName: string | null; // Catalog frame in the current look, if known
+  lensWidthMm: number;
+  onApply: (options: LensOptions) => void;
+  disabled?: boolean;
+}
+
+const DIOPTER_STEP = 0.25;
+
+const clampDiopters = (value: number, range: { min: number; max: number }) =>
+  Math.min(range.max, Math.max(range.min, Math.round(value / DIOPTER_STEP) * DIOPTER_STEP));
+
+const LensPanel: React.FC<LensPanelProps> = ({ frameName, lensWidthMm, onApply, disabled = false }) => {
+  const { t, term, locale } = useI18n();
+  const [options, setOptions] = useState<LensOptions>(DEFAULT_LENS_OPTIONS);
+
+  const update = (patch: Partial<LensOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+  const updatePrescription = (patch: Partial<LensOptions['prescription']>) =>
+    setOptions(prev => ({ ...prev, prescription: { ...prev.prescription, ...patch } }));
+
+  const thicknessByIndex = LENS_INDICES.map(index => ({
+    index,
+    thickness: estimateLensThickness(options.prescription, index, lensWidthMm)
+  }));
+  const thickest = Math.max(...thicknessByIndex.map(entry => entry.thickness.edgeMm));
+
+  const hasTint = options.tintId !== null || options.photochromic;
+
+  const segmentClassName = (active: boolean) =>
+    `flex-1 text-xs py-1.5 rounded-md transition-colors capitalize ${active ? 'bg-white shadow-sm text-slate-900 font-medium' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="space-y-4">
+      {/* Tint */}
+      <div>
+        <p className="text-xs font-medium text-slate-600 mb-2">{t(options.photochromic ? 'lenses.darkensTo' : 'lenses.tint')}</p>
+        <div className="flex items-center space-x-2">
+          {!options.photochromic && (
+            <button
+              onClick={() => update({ tintId: null })}
+              title={t('lenses.clearTint')}
+              className={`w-6 h-6 rounded-full border-2 bg-white text-[10px] text-slate-400 ${options.tintId === null ? 'border-primary scale-110' : 'border-white ring-1 ring-slate-200'}`}
+            >
+              ∅
+            </button>
+          )}
+          {TINT_COLORS.map(tint => {
+            const isActive = options.tintId === tint.id || (options.photochromic && !options.tintId && tint.id === TINT_COLORS[0].id);
+            return (
+              <button
+                key={tint.id}
+                onClick={() => update({ tintId: tint.id })}
+                title={term('tint', tint.id)}
+                className={`w-6 h-6 rounded-full border-2 transition-all ${isActive ? 'border-primary scale-110' : 'border-white ring-1 ring-slate-200'}`}
+                style={{ backgroundColor: tint.hex }}
+              />
+            );
+          })}
+        </div>
+        {hasTint && (
+          <label className="flex items-center space-x-2 mt-2 text-xs text-slate-500">
+            <span className="w-14">{t('lenses.density')}</span>
+            <input
+              type="range"
+              min={10}
+              max={90}
+              step={5}
+              value={options.tintDensity}
+              onChange={(e) => update({ tintDensity: Number(e.target.value) })}
+              className="flex-1 accent-sky-500"
+            />
+            <span className="w-8 text-end">{t('lenses.percent', { value: options.tintDensity })}</span>
+          </label>
+        )}
+      </div>
+
+      {/* Coatings */}
+      <div className="space-y-2">
+        <div className="flex bg-slate-100 rounded-lg p-0.5">
+          {(['none', 'gradient', 'mirror'] as const).map(coating => (
+            <button
+              key={coating}
+              onClick={() => update({ coating })}
+              disabled={coating === 'gradient' && !options.tintId}
+              className={`${segmentClassName(options.coating === coating)} disabled:opacity-40 disabled:cursor-not-allowed`}
+            >
+              {term('coating', coating)}
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-0.5">
+          {(['anti-reflective', 'glossy'] as const).map(finish => (
+            <button key={finish} onClick={() => update({ finish })} className={segmentClassName(options.finish === finish)}>
+              {term('finish', finish)}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center space-x-2 text-xs text-slate-600">
+          <input type="checkbox" checked={options.blueLightFilter} onChange={(e) => update({ blueLightFilter: e.target.checked })} className="accent-sky-500" />
+          <span>{t('lenses.blueLight')}</span>
+        </label>
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-xs text-slate-600">
+            <input type="checkbox" checked={options.photochromic} onChange={(e) => update({ photochromic: e.target.checked })} className="accent-sky-500" />
+            <span>{t('lenses.photochromic')}</span>
+          </label>
+          {options.photochromic && (
+            <div className="flex bg-slate-100 rounded-lg p-0.5 w-36">
+              {(['indoor', 'outdoor'] as const).map(lightCondition => (
+                <button key={lightCondition} onClick={() => update({ lightCondition })} className={segmentClassName(options.lightCondition === lightCondition)}>
+                  {term('light', lightCondition)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Prescription */}
+      <div>
+        <p className="text-xs font-medium text-slate-600 mb-2">{t('lenses.prescription')}</p>
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            { key: 'sph', label: 'lenses.sph', range: SPH_RANGE },
+            { key: 'cyl', label: 'lenses.cyl', range: CYL_RANGE },
+          ] as const).map(field => (
+            <label key={field.key} className="flex items-center space-x-2 text-xs text-slate-500">
+              <span className="w-8">{t(field.label)}</span>
+              <input
+                type="number"
+                step={DIOPTER_STEP}
+                min={field.range.min}
+                max={field.range.max}
+                value={options.prescription[field.key]}
+                onChange={(e) => updatePrescription({ [field.key]: clampDiopters(Number(e.target.value) || 0, field.range) })}
+                className="w-full text-sm border border-slate-200 rounded-lg px-2 py-1 outline-none focus:border-primary"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Thickness by index */}
+      <div>
+        <p className="text-xs font-medium text-slate-600 mb-2">{t('lenses.thicknessTitle')}</p>
+        <div className="grid grid-cols-4 gap-1">
+          {thicknessByIndex.map(({ index, thickness }) => (
+            <button
+              key={index}
+              onClick={() => update({ index })}
+              className={`rounded-lg border p-1.5 text-center transition-colors ${options.index === index ? 'border-primary bg-primary/5' : 'border-slate-200 hover:border-slate-300'}`}
+            >
+              <div className="h-10 flex items-end justify-center">
+                <div className="w-3 bg-sky-200 rounded-sm" style={{ height: `${Math.max(10, (thickness.edgeMm / thickest) * 100)}%` }} />
+              </div>
+              <p className="text-xs font-semibold text-slate-800 mt-1">{formatNumber(locale, index)}</p>
+              <p className="text-[10px] text-slate-500">{t('units.mm', { value: thickness.edgeMm })}</p>
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-400 mt-2">
+          {t('lenses.estimateNote', {
+            sph: formatDiopters(options.prescription.sph),
+            cyl: formatDiopters(options.prescription.cyl),
+            frame: frameName ?? t('lenses.typicalFrame'),
+            lens: lensWidthMm
+          })}
+        </p>
+      </div>
+
+      <button
+        onClick={() => onApply(options)}
+        disabled={disabled}
+        className="w-full text-sm font-medium text-white bg-primary hover:bg-sky-600 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t('lenses.preview')}
+      </button>
+    </div>
+  );
+};
+
+export default LensPanel;
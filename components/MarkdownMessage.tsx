@@ -0,0 +1,85 @@
+import React from 'react';
+import { InlineToken, parseMarkdown } from '../utils/markdown';
+import { formatNumber } from '../services/i18n';
+import { Locale } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface MarkdownMessageProps {
+  text: string;
+  citations?: Array<{ title: string; uri: string }>; // [n] markers point into this list
+}
+
+const renderInline = (tokens: InlineToken[], locale: Locale, citations: MarkdownMessageProps['citations'] = []): React.ReactNode =>
+  tokens.map((token, i) => {
+    switch (token.type) {
+      case 'text':
+        return <React.Fragment key={i}>{token.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={i} className="font-semibold">{renderInline(token.children, locale, citations)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(token.children, locale, citations)}</em>;
+      case 'code':
+        return <code key={i} className="text-xs bg-white/60 px-1 rounded">{token.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={token.href} target="_blank" rel="noopener noreferrer" className="text-primary underline hover:text-sky-600">
+            {renderInline(token.children, locale, citations)}
+          </a>
+        );
+      case 'citation': {
+        const source = citations[token.index - 1];
+        return source ? (
+          <a
+            key={i}
+            href={source.uri}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={source.title}
+            className="align-super text-[10px] font-bold text-primary hover:text-sky-600 ms-0.5"
+          >
+            [{formatNumber(locale, token.index)}]
+          </a>
+        ) : (
+          <sup key={i} className="text-[10px] text-slate-400">[{formatNumber(locale, token.index)}]</sup>
+        );
+      }
+    }
+  });
+
+/**
+ * Renders a stylist reply as markdown. Built from React elements only; no HTML from the
+ * model is ever injected.
+ */
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text, citations }) => {
+  const { locale } = useI18n();
+
+  return (
+    <div className="text-sm leading-relaxed space-y-2">
+      {parseMarkdown(text).map((block, i) => {
+        if (block.type === 'heading') {
+          return <p key={i} className="font-bold">{renderInline(block.content, locale, citations)}</p>;
+        }
+        if (block.type === 'list') {
+          const ListTag = block.ordered ? 'ol' : 'ul';
+          return (
+            <ListTag key={i} className={`ps-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item, locale, citations)}</li>)}
+            </ListTag>
+          );
+        }
+        return (
+          <p key={i}>
+            {block.lines.map((line, j) => (
+              <React.Fragment key={j}>
+                {j > 0 && <br />}
+                {renderInline(line, locale, citations)}
+              </React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MarkdownMessage;
@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { isMaskEmpty } from '../utils/maskUtils';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface MaskEditorProps {
+  image: string; // The look being refined
+  onApply: (mask: HTMLCanvasElement, instruction: string) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+type BrushMode = 'paint' | 'erase';
+
+const BRUSH_SIZES = [12, 24, 48];
+
+const REGION_SUGGESTIONS: MessageKey[] = ['mask.suggestGoldTemples', 'mask.suggestThinnerBridge', 'mask.suggestMirrorCoating'];
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ image, onApply, onCancel, disabled = false }) => {
+  const { t } = useI18n();
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  const [mode, setMode] = useState<BrushMode>('paint');
+  const [instruction, setInstruction] = useState('');
+  const [hasMask, setHasMask] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  // The canvas matches the image's real resolution; pointer positions are scaled onto it
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPointRef.current ?? { x, y };
+
+    ctx.globalCompositeOperation = mode === 'paint' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = '#0ea5e9';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+
+    lastPointRef.current = { x, y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    drawTo(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    setHasMask(!isMaskEmpty(e.currentTarget));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
+  };
+
+  const handleApply = () => {
+    if (canvasRef.current && hasMask && instruction.trim()) {
+      onApply(canvasRef.current, instruction.trim());
+    }
+  };
+
+  const segmentClassName = (active: boolean) =>
+    `px-3 py-1.5 text-xs font-medium rounded-full transition-colors ${active ? 'bg-slate-900 text-white' : 'text-slate-600 hover:text-slate-900'}`;
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col space-y-3">
+      {/* Canvas over the look */}
+      <div className="aspect-[4/3] bg-slate-900 rounded-2xl overflow-hidden shadow-2xl ring-1 ring-slate-900/5 flex items-center justify-center">
+        <div className="relative">
+          <img src={image} alt={t('mask.imageAlt')} onLoad={handleImageLoad} className="block max-w-full max-h-[60vh] select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="absolute inset-0 w-full h-full opacity-50 touch-none cursor-crosshair"
+          />
+        </div>
+      </div>
+
+      {/* Tools */}
+      <div className="bg-white rounded-2xl shadow-lg ring-1 ring-slate-900/5 p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-1 bg-slate-100 rounded-full p-0.5">
+            <button onClick={() => setMode('paint')} className={segmentClassName(mode === 'paint')}>{t('mask.brush')}</button>
+            <button onClick={() => setMode('erase')} className={segmentClassName(mode === 'erase')}>{t('mask.eraser')}</button>
+          </div>
+          <div className="flex items-center space-x-2">
+            {BRUSH_SIZES.map(size => (
+              <button
+                key={size}
+                onClick={() => setBrushSize(size)}
+                title={t('mask.brushSize', { size })}
+                className={`w-8 h-8 rounded-full flex items-center justify-center ${brushSize === size ? 'bg-primary/10 ring-2 ring-primary' : 'hover:bg-slate-100'}`}
+              >
+                <span className="rounded-full bg-slate-700" style={{ width: size / 3, height: size / 3 }} />
+              </button>
+            ))}
+            <button onClick={handleClear} disabled={!hasMask} className="text-xs font-medium text-slate-500 hover:text-slate-800 px-2 disabled:opacity-40">
+              {t('mask.clear')}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {REGION_SUGGESTIONS.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => setInstruction(t(suggestion))}
+              className="text-xs bg-slate-100 hover:bg-slate-200 text-slate-600 px-2 py-1 rounded-full"
+            >
+              {t(suggestion)}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleApply(); }}
+            placeholder={t(hasMask ? 'mask.instructionPlaceholder' : 'mask.paintFirst')}
+            className="flex-1 text-sm border border-slate-200 rounded-lg px-3 py-2 outline-none focus:border-primary focus:ring-2 focus:ring-primary/20"
+            disabled={disabled}
+          />
+          <button onClick={onCancel} className="text-sm font-medium text-slate-600 border border-slate-200 hover:border-slate-300 px-3 py-2 rounded-lg">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={disabled || !hasMask || !instruction.trim()}
+            className="text-sm font-medium text-white bg-primary hover:bg-sky-600 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('mask.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FaceLandmarks, FaceMeasurement, Point, SizeRange } from '../types';
+import { detectLandmarks } from '../services/geminiService';
+import { DEFAULT_LANDMARKS, CARD_WIDTH_MM, measureFace } from '../services/measurementService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface MeasurementToolProps {
+  image: string; // Data URL of the user's photo
+  initialLandmarks?: FaceLandmarks; // From a previous measurement, skips detection
+  onSave: (measurement: FaceMeasurement) => void;
+  onClose: () => void;
+}
+
+type HandleKey = Exclude<keyof FaceLandmarks, 'cardDetected'>;
+
+const HANDLES: Array<{ key: HandleKey; label: MessageKey; color: string }> = [
+  { key: 'cardLeft', label: 'measure.handleCard', color: '#f59e0b' },
+  { key: 'cardRight', label: 'measure.handleCard', color: '#f59e0b' },
+  { key: 'leftPupil', label: 'measure.handlePupil', color: '#0ea5e9' },
+  { key: 'rightPupil', label: 'measure.handlePupil', color: '#0ea5e9' },
+  { key: 'faceLeft', label: 'measure.handleTemple', color: '#10b981' },
+  { key: 'faceRight', label: 'measure.handleTemple', color: '#10b981' },
+];
+
+const LINES: Array<{ from: HandleKey; to: HandleKey; color: string }> = [
+  { from: 'cardLeft', to: 'cardRight', color: '#f59e0b' },
+  { from: 'leftPupil', to: 'rightPupil', color: '#0ea5e9' },
+  { from: 'faceLeft', to: 'faceRight', color: '#10b981' },
+];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const MeasurementTool: React.FC<MeasurementToolProps> = ({ image, initialLandmarks, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [landmarks, setLandmarks] = useState<FaceLandmarks>(initialLandmarks ?? DEFAULT_LANDMARKS);
+  const [isDetecting, setIsDetecting] = useState(!initialLandmarks);
+  const [detectionFailed, setDetectionFailed] = useState(false);
+  const [dragging, setDragging] = useState<HandleKey | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (initialLandmarks) return;
+
+    const controller = new AbortController();
+    detectLandmarks(image.split(',')[1], { signal: controller.signal })
+      .then(setLandmarks)
+      .catch(() => {
+        if (!controller.signal.aborted) setDetectionFailed(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsDetecting(false);
+      });
+
+    return () => controller.abort();
+  }, [image, initialLandmarks]);
+
+  const measurement = imageSize ? measureFace(landmarks, imageSize.width, imageSize.height) : null;
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    const point: Point = { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+    // Moving a card handle by hand means the card position is now the user's, not a placeholder
+    setLandmarks(prev => ({ ...prev, [dragging]: point, cardDetected: prev.cardDetected || dragging.startsWith('card') }));
+  };
+
+  const formatRange = (range: SizeRange) => t('units.mmRange', { min: range.min, max: range.max });
+
+  const instructions = t(isDetecting
+    ? 'measure.detecting'
+    : detectionFailed
+    ? 'measure.detectionFailed'
+    : landmarks.cardDetected
+    ? 'measure.checkHandles'
+    : 'measure.noCard');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-full overflow-hidden flex">
+        {/* Photo with handles */}
+        <div className="flex-1 bg-slate-900 flex items-center justify-center p-4 min-w-0">
+          <div
+            ref={containerRef}
+            className="relative select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(null)}
+            onPointerLeave={() => setDragging(null)}
+          >
+            <img
+              src={image}
+              alt={t('measure.photoAlt')}
+              className="block max-h-[70vh] w-auto"
+              draggable={false}
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+              {LINES.map(line => (
+                <line
+                  key={line.from}
+                  x1={landmarks[line.from].x * 100}
+                  y1={landmarks[line.from].y * 100}
+                  x2={landmarks[line.to].x * 100}
+                  y2={landmarks[line.to].y * 100}
+                  stroke={line.color}
+                  strokeWidth={2}
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+            </svg>
+
+            {!isDetecting && HANDLES.map(handle => (
+              <button
+                key={handle.key}
+                onPointerDown={(e) => { e.preventDefault(); setDragging(handle.key); }}
+                title={t('measure.dragHandle', { handle: t(handle.label) })}
+                className={`absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white shadow-md cursor-grab ${dragging === handle.key ? 'scale-125 cursor-grabbing' : ''}`}
+                style={{ left: `${landmarks[handle.key].x * 100}%`, top: `${landmarks[handle.key].y * 100}%`, backgroundColor: handle.color }}
+              />
+            ))}
+
+            {isDetecting && (
+              <div className="absolute inset-0 flex items-center justify-center bg-slate-900/40">
+                <div className="w-10 h-10 border-4 border-white/30 border-t-white rounded-full animate-spin" />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="w-72 flex-shrink-0 p-6 flex flex-col space-y-4 overflow-y-auto">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">{t('measure.open')}</h2>
+            <p className="text-xs text-slate-500 mt-1">{instructions}</p>
+          </div>
+
+          <div className="flex space-x-3 text-[10px] text-slate-500">
+            <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-amber-500 me-1" />{t('measure.legendCard', { width: CARD_WIDTH_MM })}</span>
+            <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-sky-500 me-1" />{t('measure.legendPupils')}</span>
+            <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-emerald-500 me-1" />{t('measure.legendTemples')}</span>
+          </div>
+
+          {measurement && !isDetecting && landmarks.cardDetected ? (
+            <dl className="space-y-2">
+              {[
+                { label: t('measure.pd'), value: t('units.mm', { value: measurement.pdMm }) },
+                { label: t('measure.faceWidth'), value: t('units.mm', { value: measurement.faceWidthMm }) },
+                { label: t('measure.lensWidth'), value: formatRange(measurement.lensWidthMm) },
+                { label: t('measure.bridge'), value: formatRange(measurement.bridgeMm) },
+                { label: t('measure.templeLength'), value: formatRange(measurement.templeLengthMm) },
+              ].map(row => (
+                <div key={row.label} className="flex items-center justify-between bg-slate-50 rounded-lg px-3 py-2">
+                  <dt className="text-xs text-slate-500">{row.label}</dt>
+                  <dd className="text-sm font-semibold text-slate-800">{row.value}</dd>
+                </div>
+              ))}
+            </dl>
+          ) : !isDetecting && (
+            <p className="text-xs text-amber-600">
+              {t(landmarks.cardDetected ? 'measure.spreadCard' : 'measure.placeCard')}
+            </p>
+          )}
+
+          <p className="text-[10px] text-slate-400">
+            {t('measure.disclaimer')}
+          </p>
+
+          <div className="flex-1" />
+          <div className="flex space-x-2">
+            <button onClick={onClose} className="flex-1 text-sm font-medium text-slate-600 border border-slate-200 hover:border-slate-300 py-2 rounded-lg">
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={() => measurement && onSave(measurement)}
+              disabled={!measurement || isDetecting || !landmarks.cardDetected}
+              className="flex-1 text-sm font-medium text-white bg-primary hover:bg-sky-600 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t('measure.save')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementTool;
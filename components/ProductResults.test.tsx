@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { sortByPrice } from './ProductResults';
+import { ProductResult } from '../types';
+
+const product = (id: string, price: number | null, currency: string): ProductResult => ({
+  id, name: id, brand: 'Brand', price, currency, retailer: id, rationale: '', sourceUrl: `https://example.com/${id}`
+});
+
+describe('sortByPrice', () => {
+  it('sorts within each currency and keeps currencies apart', () => {
+    const products = [
+      product('usd-high', 180, 'USD'),
+      product('jpy', 9800, 'JPY'),
+      product('unpriced', null, 'USD'),
+      product('usd-low', 90, 'USD'),
+      product('jpy-low', 5400, 'JPY'),
+    ];
+
+    expect(sortByPrice(products, 1).map(p => p.id)).toEqual(['usd-low', 'usd-high', 'jpy-low', 'jpy', 'unpriced']);
+    expect(sortByPrice(products, -1).map(p => p.id)).toEqual(['usd-high', 'usd-low', 'jpy', 'jpy-low', 'unpriced']);
+  });
+});
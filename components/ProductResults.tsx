@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Locale, ProductResult } from '../types';
+import { isSameProduct } from '../services/wishlistStore';
+import { DEFAULT_LOCALE, formatCurrency, translate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ProductResultsProps {
+  products: ProductResult[];
+  wishlist: ProductResult[];
+  onToggleWishlist: (product: ProductResult) => void;
+}
+
+type SortOrder = 'relevance' | 'price-asc' | 'price-desc';
+
+export const formatProductPrice = (product: ProductResult, locale: Locale = DEFAULT_LOCALE) =>
+  product.price === null ? translate(locale, 'products.priceUnavailable') : formatCurrency(locale, product.price, product.currency);
+
+// Unpriced products always sort last. Prices in different currencies aren't comparable, so
+// they never count as cheaper than each other.
+const comparePrice = (a: ProductResult, b: ProductResult, direction: 1 | -1) => {
+  if (a.price === null) return b.price === null ? 0 : 1;
+  if (b.price === null) return -1;
+  if (a.currency !== b.currency) return 0;
+  return (a.price - b.price) * direction;
+};
+
+/**
+ * Sorts by price within each currency. Mixed lists stay grouped by currency, in the order
+ * each currency first appears, so a JPY price never sorts against a USD one.
+ */
+export const sortByPrice = (products: ProductResult[], direction: 1 | -1): ProductResult[] => {
+  const currencyRank = new Map<string, number>();
+  products.forEach(product => {
+    if (product.price !== null && !currencyRank.has(product.currency)) currencyRank.set(product.currency, currencyRank.size);
+  });
+  return [...products].sort((a, b) => {
+    if (a.price !== null && b.price !== null && a.currency !== b.currency) {
+      return currencyRank.get(a.currency)! - currencyRank.get(b.currency)!;
+    }
+    return comparePrice(a, b, direction);
+  });
+};
+
+/**
+ * Keeps the cheapest product per retailer (the first, for unpriced ones).
+ */
+const dedupeByRetailer = (products: ProductResult[]) => {
+  const byRetailer = new Map<string, ProductResult>();
+  products.forEach(product => {
+    const key = product.retailer.toLowerCase();
+    const current = byRetailer.get(key);
+    if (!current || comparePrice(product, current, 1) < 0) byRetailer.set(key, product);
+  });
+  return products.filter(product => byRetailer.get(product.retailer.toLowerCase()) === product);
+};
+
+export const HeartIcon: React.FC<{ filled: boolean }> = ({ filled }) => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill={filled ? 'currentColor' : 'none'} viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M21 8.25c0-2.485-2.099-4.5-4.688-4.5-1.935 0-3.597 1.126-4.312 2.733-.715-1.607-2.377-2.733-4.313-2.733C5.1 3.75 3 5.765 3 8.25c0 7.22 9 12 9 12s9-4.78 9-12z" />
+  </svg>
+);
+
+const ProductResults: React.FC<ProductResultsProps> = ({ products, wishlist, onToggleWishlist }) => {
+  const { t, locale } = useI18n();
+  const [sortOrder, setSortOrder] = useState<SortOrder>('relevance');
+  const [onePerRetailer, setOnePerRetailer] = useState(false);
+
+  const deduped = onePerRetailer ? dedupeByRetailer(products) : products;
+  const visible = sortOrder === 'relevance' ? deduped : sortByPrice(deduped, sortOrder === 'price-asc' ? 1 : -1);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <select
+          value={sortOrder}
+          onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+          className="border border-slate-200 rounded-md px-1.5 py-1 bg-white text-slate-600 outline-none focus:border-primary"
+        >
+          <option value="relevance">{t('products.sortRelevance')}</option>
+          <option value="price-asc">{t('products.sortPriceAsc')}</option>
+          <option value="price-desc">{t('products.sortPriceDesc')}</option>
+        </select>
+        <label className="flex items-center space-x-1 text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={onePerRetailer} onChange={(e) => setOnePerRetailer(e.target.checked)} className="accent-sky-500" />
+          <span>{t('products.onePerRetailer')}</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {visible.map(product => {
+          const isSaved = wishlist.some(item => isSameProduct(item, product));
+          return (
+            <div key={product.id} className="bg-white rounded-lg border border-slate-200 overflow-hidden flex flex-col">
+              <div className="relative h-20 bg-slate-50 flex items-center justify-center">
+                {product.imageUrl ? (
+                  <img src={product.imageUrl} alt={product.name} className="w-full h-full object-contain" />
+                ) : (
+                  <span className="text-2xl">👓</span>
+                )}
+                <button
+                  onClick={() => onToggleWishlist(product)}
+                  title={t(isSaved ? 'products.removeFromWishlist' : 'products.saveToWishlist')}
+                  className={`absolute top-1 end-1 p-1 rounded-full bg-white/90 shadow-sm ${isSaved ? 'text-rose-500' : 'text-slate-400 hover:text-rose-500'}`}
+                >
+                  <HeartIcon filled={isSaved} />
+                </button>
+              </div>
+              <div className="p-2 flex-1 flex flex-col">
+                <p className="text-xs font-semibold text-slate-800 line-clamp-2">{product.name}</p>
+                <p className="text-[10px] text-slate-500 truncate">{product.brand ? `${product.brand} · ` : ''}{product.retailer}</p>
+                <p className="text-sm font-bold text-slate-900 mt-1">{formatProductPrice(product, locale)}</p>
+                {product.rationale && <p className="text-[10px] text-slate-500 mt-1 line-clamp-2">{product.rationale}</p>}
+                <a
+                  href={product.sourceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-auto pt-2 text-xs font-medium text-primary hover:text-sky-600"
+                >
+                  {t('products.viewAt', { retailer: product.retailer })}
+                </a>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProductResults;
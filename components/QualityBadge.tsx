@@ -0,0 +1,54 @@
+import React from 'react';
+import { QualityReport } from '../types';
+import { formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface QualityBadgeProps {
+  quality: QualityReport;
+  compact?: boolean; // Score only, for grid tiles
+}
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'bg-emerald-500' : score >= 60 ? 'bg-amber-500' : 'bg-red-500';
+
+const QualityBadge: React.FC<QualityBadgeProps> = ({ quality, compact = false }) => {
+  const { t, locale } = useI18n();
+  const outOf100 = (score: number) => t('quality.outOf100', { score });
+  const checks = [
+    { label: t('quality.identity'), value: quality.identityScore === null ? t('quality.notChecked') : outOf100(quality.identityScore) },
+    { label: t('quality.framing'), value: outOf100(quality.framingScore) },
+    { label: t('quality.glassesVisible'), value: t(quality.eyewearPresent === null ? 'quality.notChecked' : quality.eyewearPresent ? 'quality.yes' : 'quality.no') },
+    { label: t('quality.aspectRatio'), value: t(quality.aspectRatioMatch ? 'quality.matches' : 'quality.changed') },
+    { label: t('quality.resolution'), value: t(quality.resolutionOk ? 'quality.ok' : 'quality.low') },
+    { label: t('quality.attempts'), value: formatNumber(locale, quality.attempts) },
+  ];
+
+  return (
+    <div className="relative group/quality pointer-events-auto">
+      <div className="flex items-center gap-1.5 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm cursor-default">
+        <span className={`w-2 h-2 rounded-full ${scoreColor(quality.score)}`} />
+        <span>{compact ? formatNumber(locale, quality.score) : t('quality.score', { score: quality.score })}</span>
+        {!quality.passed && <span title={t('quality.belowBar')}>⚠</span>}
+      </div>
+
+      {/* Details on hover */}
+      <div className="absolute top-full mt-1 left-1/2 -translate-x-1/2 w-56 bg-white rounded-lg shadow-xl ring-1 ring-slate-900/5 p-3 text-start hidden group-hover/quality:block z-40">
+        <dl className="space-y-1">
+          {checks.map(check => (
+            <div key={check.label} className="flex justify-between text-xs">
+              <dt className="text-slate-500">{check.label}</dt>
+              <dd className="font-medium text-slate-800">{check.value}</dd>
+            </div>
+          ))}
+        </dl>
+        {quality.issues.length > 0 && (
+          <ul className="mt-2 pt-2 border-t border-slate-100 text-[10px] text-slate-500 space-y-0.5">
+            {[...new Set(quality.issues.map(issue => t(issue.key, issue.variables)))].map(issue => <li key={issue}>• {issue}</li>)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QualityBadge;
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReferenceView, ReferenceViewType } from '../types';
+import { preprocessReference } from '../services/referenceService';
+import { LocalizedMessage, MessageKey } from '../services/i18n';
+import ImageUploader from './ImageUploader';
+import { useI18n } from './I18nProvider';
+
+interface ReferenceViewsProps {
+  views: ReferenceView[];
+  onChange: (views: ReferenceView[]) => void;
+  onTryOn: () => void;
+  disabled?: boolean;
+}
+
+interface PendingReference {
+  view: ReferenceViewType;
+  original: string;
+  cleaned: string | null; // Null while preprocessing
+  notes: LocalizedMessage[];
+}
+
+const VIEW_SLOTS: Array<{ view: ReferenceViewType; label: MessageKey }> = [
+  { view: 'front', label: 'reference.viewFront' },
+  { view: 'side', label: 'reference.viewSide' },
+  { view: 'detail', label: 'reference.viewDetail' },
+];
+
+const ReferenceViews: React.FC<ReferenceViewsProps> = ({ views, onChange, onTryOn, disabled = false }) => {
+  const { t } = useI18n();
+  const [pending, setPending] = useState<PendingReference | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const startPreprocess = async (view: ReferenceViewType, original: string) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setShowOriginal(false);
+    setPending({ view, original, cleaned: null, notes: [] });
+    try {
+      const { image, notes } = await preprocessReference(original, { signal: controller.signal });
+      if (!controller.signal.aborted) setPending({ view, original, cleaned: image, notes });
+    } catch {
+      // Only a cancel gets here, and whoever cancelled has already moved on
+    }
+  };
+
+  const cancelPending = () => {
+    abortControllerRef.current?.abort();
+    setPending(null);
+  };
+
+  const acceptPending = (image: string) => {
+    if (!pending) return;
+    // Keep views in slot order so the front view, when present, is always the primary one
+    const next = [...views.filter(v => v.view !== pending.view), { view: pending.view, image }];
+    onChange(VIEW_SLOTS.flatMap(slot => next.filter(v => v.view === slot.view)));
+    setPending(null);
+  };
+
+  if (pending) {
+    const label = t(VIEW_SLOTS.find(slot => slot.view === pending.view)!.label);
+    const preview = showOriginal || !pending.cleaned ? pending.original : pending.cleaned;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-medium text-slate-600">{t(pending.cleaned ? 'reference.previewTitle' : 'reference.cleaningTitle', { view: label })}</p>
+          {pending.cleaned && (
+            <button onClick={() => setShowOriginal(!showOriginal)} className="text-xs text-slate-500 hover:text-primary">
+              {t(showOriginal ? 'reference.showCleaned' : 'reference.showOriginal')}
+            </button>
+          )}
+        </div>
+        <div className="relative rounded-lg overflow-hidden border border-slate-200 h-40 bg-slate-50">
+          <img src={preview} alt={t('reference.imageAlt', { view: label })} className="w-full h-full object-contain" />
+          {!pending.cleaned && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white/60">
+              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          )}
+        </div>
+        {pending.notes.length > 0 && (
+          <ul className="text-[10px] text-slate-500 space-y-0.5">
+            {pending.notes.map(note => <li key={note.key}>• {t(note.key, note.variables)}</li>)}
+          </ul>
+        )}
+        <div className="flex space-x-2">
+          <button onClick={cancelPending} className="flex-1 text-xs font-medium text-slate-600 border border-slate-200 hover:border-slate-300 py-1.5 rounded-lg">
+            {t('reference.discard')}
+          </button>
+          <button
+            onClick={() => acceptPending(pending.original)}
+            disabled={!pending.cleaned}
+            className="flex-1 text-xs font-medium text-slate-600 border border-slate-200 hover:border-slate-300 py-1.5 rounded-lg disabled:opacity-50"
+          >
+            {t('reference.keepOriginal')}
+          </button>
+          <button
+            onClick={() => pending.cleaned && acceptPending(pending.cleaned)}
+            disabled={!pending.cleaned}
+            className="flex-1 text-xs font-medium text-white bg-primary hover:bg-sky-600 py-1.5 rounded-lg disabled:opacity-50"
+          >
+            {t('reference.useCleaned')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {VIEW_SLOTS.map(slot => {
+          const current = views.find(v => v.view === slot.view);
+          return current ? (
+            <div key={slot.view} className="relative rounded-lg overflow-hidden border border-slate-200 h-20 bg-slate-50">
+              <img src={current.image} alt={t('reference.imageAlt', { view: t(slot.label) })} className="w-full h-full object-contain" />
+              <span className="absolute bottom-1 start-1 text-[10px] font-medium bg-white/90 text-slate-600 px-1 rounded">{t(slot.label)}</span>
+              <button
+                onClick={() => onChange(views.filter(v => v.view !== slot.view))}
+                disabled={disabled}
+                title={t('reference.removeView', { view: t(slot.label) })}
+                className="absolute top-1 end-1 bg-white/90 hover:bg-red-50 p-1 rounded-full shadow-sm disabled:opacity-50"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ) : (
+            <ImageUploader key={slot.view} onImageSelected={(image) => startPreprocess(slot.view, image)} label={t(slot.label)} compact />
+          );
+        })}
+      </div>
+
+      {views.length > 0 && (
+        <button
+          onClick={onTryOn}
+          disabled={disabled}
+          className="w-full text-sm font-medium text-white bg-primary hover:bg-sky-600 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('reference.tryOn')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceViews;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Locale, SessionSummary } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface SessionListProps {
+  sessions: SessionSummary[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  disabled?: boolean;
+}
+
+const formatDate = (locale: Locale, timestamp: number) =>
+  new Date(timestamp).toLocaleString(locale, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, activeId, onOpen, onRename, onDelete, onNew, disabled = false }) => {
+  const { t, locale } = useI18n();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: SessionSummary) => {
+    if (window.confirm(t('sessions.confirmDelete', { name: session.name }))) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={onNew}
+        disabled={disabled}
+        className="w-full text-sm font-medium text-slate-700 border border-dashed border-slate-300 hover:border-primary rounded-lg py-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {t('sessions.new')}
+      </button>
+
+      {sessions.length === 0 && (
+        <p className="text-xs text-slate-400 text-center py-2">{t('sessions.empty')}</p>
+      )}
+
+      {sessions.map(session => (
+        <div
+          key={session.id}
+          className={`flex items-center space-x-3 p-2 rounded-lg border transition-colors group ${
+            session.id === activeId ? 'border-primary bg-primary/5' : 'border-slate-200 hover:border-slate-300'
+          }`}
+        >
+          <button
+            onClick={() => onOpen(session.id)}
+            disabled={disabled || session.id === activeId}
+            className="flex-shrink-0 w-12 h-12 rounded-md overflow-hidden bg-slate-100 disabled:cursor-default"
+          >
+            {session.thumbnail && <img src={session.thumbnail} alt={session.name} className="w-full h-full object-cover" />}
+          </button>
+
+          <div className="flex-1 min-w-0">
+            {editingId === session.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full text-sm border border-slate-300 rounded px-1 py-0.5 outline-none focus:border-primary"
+              />
+            ) : (
+              <button
+                onClick={() => onOpen(session.id)}
+                disabled={disabled || session.id === activeId}
+                className="block w-full text-start disabled:cursor-default"
+              >
+                <p className="text-sm font-medium text-slate-800 truncate">{session.name}</p>
+                <p className="text-xs text-slate-400">{formatDate(locale, session.updatedAt)}</p>
+              </button>
+            )}
+          </div>
+
+          <div className="flex-shrink-0 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              onClick={() => startRename(session)}
+              title={t('sessions.rename')}
+              className="p-1 text-slate-400 hover:text-slate-700"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.862 4.487l1.687-1.688a1.875 1.875 0 112.652 2.652L6.832 19.82a4.5 4.5 0 01-1.897 1.13l-2.685.8.8-2.685a4.5 4.5 0 011.13-1.897L16.863 4.487z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => handleDelete(session)}
+              disabled={disabled}
+              title={t('sessions.delete')}
+              className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-50"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { BatchItem, LookVersion } from '../types';
+import QualityBadge from './QualityBadge';
+import { useI18n } from './I18nProvider';
+
+interface StyleGridProps {
+  items: BatchItem[];
+  versions: LookVersion[];
+  compareId: string | null; // Version used as the slider baseline, null = original
+  onToggleStar: (versionId: string) => void;
+  onRemove: (itemId: string) => void;
+  onExpand: (versionId: string) => void;
+  onSetBaseline: (versionId: string | null) => void;
+  onCancel?: () => void; // Shown while the batch is running
+}
+
+const StyleGrid: React.FC<StyleGridProps> = ({ items, versions, compareId, onToggleStar, onRemove, onExpand, onSetBaseline, onCancel }) => {
+  const { t } = useI18n();
+  const columns = items.length <= 4 ? 'grid-cols-2' : 'grid-cols-3';
+  const doneCount = items.filter(item => item.status !== 'pending' && item.status !== 'running').length;
+
+  return (
+    <div className="w-full max-w-4xl h-full flex flex-col">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm font-bold text-slate-700">{t('grid.title')}</p>
+        <div className="flex items-center gap-3">
+          <p className="text-xs text-slate-500">{t('grid.ready', { done: doneCount, total: items.length })}</p>
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="text-xs font-medium text-slate-600 border border-slate-200 bg-white hover:border-red-300 hover:text-red-500 px-3 py-1 rounded-lg transition-colors"
+            >
+              {t('grid.cancel')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={`grid ${columns} gap-3 flex-1 min-h-0 auto-rows-fr`}>
+        {items.map(item => {
+          const version = item.versionId ? versions.find(v => v.id === item.versionId) : undefined;
+          const isBaseline = !!version && version.id === compareId;
+          const label = t(item.label.key, item.label.variables);
+
+          return (
+            <div key={item.id} className="relative rounded-xl overflow-hidden bg-white shadow-md ring-1 ring-slate-900/5 group min-h-0">
+              {version ? (
+                <img src={version.image} alt={label} className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex flex-col items-center justify-center bg-slate-50 p-4 text-center">
+                  {item.status === 'error' ? (
+                    <>
+                      <span className="text-2xl mb-1">⚠️</span>
+                      <p className="text-xs text-slate-500">{item.error ? t(item.error.key, item.error.variables) : t('grid.failed')}</p>
+                    </>
+                  ) : item.status === 'cancelled' ? (
+                    <p className="text-xs text-slate-500">{t('grid.cancelled')}</p>
+                  ) : (
+                    <>
+                      <div className={`w-8 h-8 border-2 border-t-transparent rounded-full mb-2 ${item.status === 'running' ? 'border-primary animate-spin' : 'border-slate-300'}`}></div>
+                      <p className="text-xs text-slate-500">{t(item.status === 'running' ? 'grid.generating' : 'grid.queued')}</p>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Label */}
+              <div className="absolute top-2 start-2 flex items-start gap-1">
+                <div className="bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none">
+                  {label}
+                </div>
+                {version?.quality && <QualityBadge quality={version.quality} compact />}
+              </div>
+
+              {/* Actions */}
+              <div className="absolute top-2 end-2 flex gap-1">
+                {version && (
+                  <button
+                    onClick={() => onToggleStar(version.id)}
+                    title={t(version.starred ? 'grid.unstar' : 'grid.star')}
+                    className={`p-1.5 rounded-full shadow-sm text-sm leading-none transition-all ${version.starred ? 'bg-amber-400 text-white' : 'bg-white/90 text-slate-500 hover:text-amber-500'}`}
+                  >
+                    ★
+                  </button>
+                )}
+                {item.status !== 'running' && item.status !== 'pending' && (
+                  <button
+                    onClick={() => onRemove(item.id)}
+                    title={t('grid.remove')}
+                    className="bg-white/90 hover:bg-red-50 text-slate-600 hover:text-red-500 p-1.5 rounded-full shadow-sm transition-all"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+
+              {version && (
+                <div className="absolute bottom-2 inset-x-2 flex justify-between opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => onSetBaseline(isBaseline ? null : version.id)}
+                    className={`text-xs font-medium px-2 py-1 rounded-full shadow-sm ${isBaseline ? 'bg-slate-900 text-white' : 'bg-white/95 text-slate-700 hover:bg-white'}`}
+                  >
+                    {t(isBaseline ? 'grid.baseline' : 'grid.useAsBaseline')}
+                  </button>
+                  <button
+                    onClick={() => onExpand(version.id)}
+                    className="text-xs font-medium bg-primary text-white px-2 py-1 rounded-full shadow-sm hover:bg-sky-600"
+                  >
+                    {t('grid.expand')}
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-slate-400 mt-2 text-center">{t('grid.hint')}</p>
+    </div>
+  );
+};
+
+export default StyleGrid;
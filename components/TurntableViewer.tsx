@@ -0,0 +1,118 @@
+import React, { useRef, useState } from 'react';
+import { HeadAngle, HeadTurnFrame } from '../types';
+import { HEAD_ANGLES } from '../services/turntableService';
+import { MessageKey } from '../services/i18n';
+import QualityBadge from './QualityBadge';
+import { useI18n } from './I18nProvider';
+
+interface TurntableViewerProps {
+  frames: HeadTurnFrame[];
+}
+
+// Horizontal drag distance that turns the head by one keyframe
+const DRAG_STEP_PX = 60;
+
+const TICK_LABELS: Record<HeadAngle, MessageKey> = {
+  'profile-left': 'turntable.tickProfile',
+  'three-quarter-left': 'turntable.tickThreeQuarter',
+  'front': 'headAngle.front',
+  'three-quarter-right': 'turntable.tickThreeQuarter',
+  'profile-right': 'turntable.tickProfile',
+};
+
+/**
+ * Scrubbable view of the head-turn keyframes. Drag across the image or use the slider to
+ * rotate; hold "Original" to see the unstyled frame at the same angle.
+ */
+const TurntableViewer: React.FC<TurntableViewerProps> = ({ frames }) => {
+  const { t, term } = useI18n();
+  const ordered = HEAD_ANGLES.map(a => frames.find(f => f.angle === a.angle)).filter((f): f is HeadTurnFrame => !!f);
+  const [index, setIndex] = useState(() => Math.max(0, ordered.findIndex(f => f.angle === 'front')));
+  const [showOriginal, setShowOriginal] = useState(false);
+  const dragRef = useRef<{ startX: number; startIndex: number } | null>(null);
+
+  const clampIndex = (i: number) => Math.min(ordered.length - 1, Math.max(0, i));
+  const frame = ordered[clampIndex(index)];
+  if (!frame) return null;
+
+  const isStyled = !!frame.styledImage && !showOriginal;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startIndex: index };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const steps = Math.round((e.clientX - dragRef.current.startX) / DRAG_STEP_PX);
+    setIndex(clampIndex(dragRef.current.startIndex + steps));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col items-center space-y-4">
+      <div
+        className="relative w-full aspect-[4/3] shadow-2xl rounded-2xl overflow-hidden ring-1 ring-slate-900/5 bg-black cursor-ew-resize select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        <img
+          src={isStyled ? frame.styledImage : frame.image}
+          alt={t('turntable.viewAlt', { angle: term('headAngle', frame.angle) })}
+          className="w-full h-full object-contain pointer-events-none"
+          draggable={false}
+        />
+        <span className="absolute top-4 start-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded">
+          {t(isStyled ? 'turntable.styled' : 'turntable.original')}
+        </span>
+        {!frame.styledImage && (
+          <span className="absolute top-4 end-4 bg-white/90 text-slate-600 text-xs font-medium px-2 py-1 rounded">
+            {t('turntable.notStyled')}
+          </span>
+        )}
+        {isStyled && frame.quality && (
+          <div className="absolute top-4 end-4" onPointerDown={(e) => e.stopPropagation()}>
+            <QualityBadge quality={frame.quality} />
+          </div>
+        )}
+      </div>
+
+      <div className="w-full max-w-xl flex items-center gap-4">
+        <div className="flex-1">
+          <input
+            type="range"
+            min={0}
+            max={ordered.length - 1}
+            step={1}
+            value={clampIndex(index)}
+            onChange={(e) => setIndex(Number(e.target.value))}
+            aria-label={t('turntable.headAngle')}
+            aria-valuetext={term('headAngle', frame.angle)}
+            className="w-full accent-primary"
+          />
+          <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+            {ordered.map((f, i) => (
+              <button key={f.angle} onClick={() => setIndex(i)} className={i === index ? 'font-bold text-slate-900' : 'hover:text-slate-700'}>
+                {t(TICK_LABELS[f.angle])}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onPointerDown={() => setShowOriginal(true)}
+          onPointerUp={() => setShowOriginal(false)}
+          onPointerLeave={() => setShowOriginal(false)}
+          disabled={!frame.styledImage}
+          className="text-xs font-medium text-slate-700 border border-slate-200 bg-white hover:border-primary px-3 py-2 rounded-lg transition-colors disabled:opacity-50 select-none"
+        >
+          {t('turntable.holdOriginal')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TurntableViewer;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { LookVersion } from '../types';
+import { getLineage, getVersionLabel } from '../utils/versionTree';
+import { useI18n } from './I18nProvider';
+
+interface VersionTimelineProps {
+  originalImage: string; // Data URL
+  versions: LookVersion[];
+  selectedId: string | null; // null = original photo
+  compareId: string | null; // null = original photo
+  onSelect: (id: string | null) => void;
+  onCompare: (id: string | null) => void;
+  disabled?: boolean;
+}
+
+const VersionTimeline: React.FC<VersionTimelineProps> = ({ originalImage, versions, selectedId, compareId, onSelect, onCompare, disabled = false }) => {
+  const { t } = useI18n();
+  const labelFor = (id: string | null) => (id ? getVersionLabel(versions, id) : t('timeline.original'));
+
+  // Highlight the path from the original to the selected version
+  const lineageIds = new Set(getLineage(versions, selectedId).map(v => v.id));
+
+  const items: Array<{ id: string | null; image: string; title: string; parentId: string | null; starred?: boolean }> = [
+    { id: null, image: originalImage, title: t('timeline.originalPhoto'), parentId: null },
+    ...versions.map(v => ({ id: v.id, image: v.image, title: v.label ? t(v.label.key, v.label.variables) : v.prompt, parentId: v.parentId, starred: v.starred }))
+  ];
+
+  return (
+    <div className="bg-white border-t border-slate-200 px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-bold text-slate-900 uppercase tracking-wider">{t('timeline.title')}</p>
+        <p className="text-xs text-slate-400">{t('timeline.hint')}</p>
+      </div>
+      <div className="flex gap-3 overflow-x-auto scrollbar-hide pb-1">
+        {items.map((item, idx) => {
+          const isSelected = item.id === selectedId;
+          const isCompare = item.id === compareId;
+          const onPath = item.id === null || lineageIds.has(item.id);
+          const previousId = idx > 0 ? items[idx - 1].id : undefined;
+          // Flag versions that branch off something other than the version right before them
+          const isBranch = idx > 0 && item.parentId !== previousId;
+
+          return (
+            <div key={item.id ?? 'original'} className="flex-shrink-0 w-20 text-center">
+              <button
+                onClick={() => onSelect(item.id)}
+                disabled={disabled}
+                title={item.title}
+                className={`relative block w-20 h-20 rounded-lg overflow-hidden border-2 transition-all disabled:cursor-not-allowed ${
+                  isSelected ? 'border-primary shadow-md' : onPath ? 'border-primary/30' : 'border-slate-200 hover:border-slate-400'
+                }`}
+              >
+                <img src={item.image} alt={labelFor(item.id)} className="w-full h-full object-cover" />
+                {item.starred && (
+                  <span className="absolute top-1 end-1 text-amber-400 text-xs drop-shadow">★</span>
+                )}
+                {isCompare && (
+                  <span className="absolute top-1 start-1 bg-black/60 text-white text-[10px] font-bold px-1 rounded">{t('timeline.comparing')}</span>
+                )}
+              </button>
+              <p className={`text-xs mt-1 font-medium ${isSelected ? 'text-primary' : 'text-slate-600'}`}>
+                {labelFor(item.id)}
+              </p>
+              {isBranch && (
+                <p className="text-[10px] text-slate-400 leading-tight">{t('timeline.from', { label: labelFor(item.parentId) })}</p>
+              )}
+              {!isSelected && !isCompare && (
+                <button
+                  onClick={() => onCompare(item.id)}
+                  disabled={disabled}
+                  className="text-[10px] text-slate-400 hover:text-primary disabled:cursor-not-allowed"
+                >
+                  {t('timeline.compare')}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionTimeline;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { ProductResult } from '../types';
+import { formatProductPrice, HeartIcon } from './ProductResults';
+import { useI18n } from './I18nProvider';
+
+interface WishlistPanelProps {
+  items: ProductResult[];
+  onRemove: (product: ProductResult) => void;
+}
+
+const WishlistPanel: React.FC<WishlistPanelProps> = ({ items, onRemove }) => {
+  const { t, locale } = useI18n();
+  if (items.length === 0) {
+    return <p className="text-xs text-slate-400 text-center py-2">{t('wishlist.empty')}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={`${item.sourceUrl}-${item.name}`} className="flex items-center space-x-3 p-2 rounded-lg border border-slate-200">
+          <div className="flex-shrink-0 w-10 h-10 rounded-md bg-slate-50 flex items-center justify-center overflow-hidden">
+            {item.imageUrl ? <img src={item.imageUrl} alt={item.name} className="w-full h-full object-contain" /> : <span>👓</span>}
+          </div>
+          <a href={item.sourceUrl} target="_blank" rel="noopener noreferrer" className="flex-1 min-w-0 group">
+            <p className="text-sm font-medium text-slate-800 truncate group-hover:text-primary">{item.name}</p>
+            <p className="text-xs text-slate-500 truncate">{item.retailer} · {formatProductPrice(item, locale)}</p>
+          </a>
+          <button onClick={() => onRemove(item)} title={t('products.removeFromWishlist')} className="flex-shrink-0 p-1 text-rose-500 hover:text-slate-400">
+            <HeartIcon filled />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WishlistPanel;
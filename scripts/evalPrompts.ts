@@ -0,0 +1,105 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { loadEnv } from 'vite';
+import { getProvider } from '../services/providers';
+import { listPrompts, validatePromptDefinition } from '../services/promptRegistry';
+import { compareEvalRuns, getRecordKey, PromptEvalRecord, PromptFixtureSet, runPromptEval } from '../services/promptEval';
+
+// --- Prompt eval runner ---
+// npm run eval:prompts -- [--all-versions] [--only <template>]
+// Renders every fixture in prompts/fixtures, sends it to the configured backend (AI_PROVIDER in
+// .env.local, as for the app) and saves the run to prompts/eval-results/<timestamp>/.
+// Each run is compared with the previous one so wording changes and their effect stand out.
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const FIXTURES_DIR = path.join(ROOT, 'prompts', 'fixtures');
+const RESULTS_DIR = path.join(ROOT, 'prompts', 'eval-results');
+
+// 1x1 white JPEG; the mock echoes it back, a real model needs fixture photos instead
+const PLACEHOLDER_JPEG = '/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=';
+
+interface FixtureFile {
+  template: string;
+  fixtures: Array<{ id: string; variables: Record<string, string | number>; message?: string; images?: string[] }>; // Image paths relative to the fixture file
+}
+
+const args = process.argv.slice(2);
+const allVersions = args.includes('--all-versions');
+const only = args.includes('--only') ? args[args.indexOf('--only') + 1] : undefined;
+
+// Same configuration the app gets from vite.config.ts
+const env = loadEnv('development', ROOT, '');
+process.env.API_KEY ??= env.GEMINI_API_KEY;
+for (const key of ['AI_PROVIDER', 'GEMINI_IMAGE_MODEL', 'GEMINI_CHAT_MODEL', 'GEMINI_STRUCTURED_MODEL']) {
+  process.env[key] ??= env[key] || '';
+}
+
+const loadFixtureSets = (): PromptFixtureSet[] =>
+  readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), 'utf8')) as FixtureFile)
+    .filter(set => !only || set.template === only)
+    .map(set => ({
+      template: set.template,
+      fixtures: set.fixtures.map(fixture => ({
+        ...fixture,
+        images: fixture.images?.map(image => readFileSync(path.join(FIXTURES_DIR, image)).toString('base64'))
+      }))
+    }));
+
+const findPreviousRun = (): PromptEvalRecord[] | null => {
+  if (!existsSync(RESULTS_DIR)) return null;
+  const latest = readdirSync(RESULTS_DIR)
+    .filter(run => existsSync(path.join(RESULTS_DIR, run, 'results.json')))
+    .sort()
+    .pop();
+  return latest ? JSON.parse(readFileSync(path.join(RESULTS_DIR, latest, 'results.json'), 'utf8')) : null;
+};
+
+const main = async () => {
+  const problems = listPrompts().flatMap(validatePromptDefinition);
+  if (problems.length) {
+    problems.forEach(problem => console.error(`✗ ${problem}`));
+    process.exit(1);
+  }
+
+  const provider = getProvider();
+  console.log(`Running prompt fixtures against ${provider.name}...`);
+  const records = await runPromptEval(loadFixtureSets(), {
+    provider,
+    allVersions,
+    placeholderImage: provider.name === 'mock' ? PLACEHOLDER_JPEG : undefined
+  });
+
+  // With --only, the rest of the previous run isn't "removed", just not part of this one
+  const previous = findPreviousRun()?.filter(record => !only || record.template === only) ?? null;
+
+  // Images go next to the results; the record keeps a hash so runs stay comparable
+  const runDir = path.join(RESULTS_DIR, new Date().toISOString().replace(/[:.]/g, '-'));
+  mkdirSync(runDir, { recursive: true });
+  const saved = records.map(record => {
+    if (record.outputKind !== 'image' || !record.output) return record;
+    const file = `${getRecordKey(record).replace(/[^\w.@-]+/g, '_')}.jpg`;
+    writeFileSync(path.join(runDir, file), Buffer.from(record.output, 'base64'));
+    return { ...record, output: `${file} sha1:${createHash('sha1').update(record.output).digest('hex')}` };
+  });
+
+  writeFileSync(path.join(runDir, 'results.json'), JSON.stringify(saved, null, 2));
+
+  const changes = new Map(previous ? compareEvalRuns(previous, saved).map(c => [c.key, c.change]) : []);
+  saved.forEach(record => {
+    const key = getRecordKey(record);
+    const status = record.error ? `error: ${record.error}` : `${record.durationMs} ms`;
+    const change = previous ? ` [${changes.get(key)}]` : '';
+    console.log(`${record.error ? '✗' : '✓'} ${key}${change} (${status})`);
+  });
+  changes.forEach((change, key) => { if (change === 'removed') console.log(`- ${key} [removed]`); });
+  console.log(`Saved ${saved.length} results to ${path.relative(ROOT, runDir)}`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
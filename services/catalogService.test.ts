@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { buildFramePrompt, isValidFrame, loadCatalog } from './catalogService';
+
+describe('frame catalog', () => {
+  it('loads every bundled frame', () => {
+    expect(loadCatalog()).toHaveLength(12);
+  });
+
+  it('rejects entries missing the sizes that prompts and fit flags use', () => {
+    const [frame] = loadCatalog();
+    expect(isValidFrame(frame)).toBe(true);
+    expect(isValidFrame({ ...frame, lensWidthMm: undefined })).toBe(false);
+    expect(isValidFrame({ ...frame, bridgeMm: '14' })).toBe(false);
+    expect(isValidFrame({ ...frame, templeLengthMm: NaN })).toBe(false);
+    expect(isValidFrame({ ...frame, colors: [{ name: 'Gold' }] })).toBe(false);
+    expect(isValidFrame(null)).toBe(false);
+    expect(buildFramePrompt(frame, frame.colors[0])).toContain(`lens width ${frame.lensWidthMm}mm`);
+  });
+});
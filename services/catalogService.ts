@@ -0,0 +1,86 @@
+import catalogData from "../data/frameCatalog.json";
+import { CatalogFilters, CatalogFrame, FrameColorVariant } from "../types";
+
+// --- Frame catalog (local product data) ---
+
+const CATALOG_VERSION = 1;
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isValidColor = (color: unknown): color is FrameColorVariant => {
+  if (typeof color !== 'object' || color === null) return false;
+  const { id, name, hex } = color as Record<string, unknown>;
+  return typeof id === 'string' && typeof name === 'string' && typeof hex === 'string';
+};
+
+/**
+ * Checks everything the sidebar, try-on prompts and fit flags read, so one bad entry can't
+ * turn into "lens width undefinedmm" or a NaN fit.
+ */
+export const isValidFrame = (frame: unknown): frame is CatalogFrame => {
+  if (typeof frame !== 'object' || frame === null) return false;
+  const f = frame as Record<string, unknown>;
+  return typeof f.sku === 'string' &&
+    typeof f.brand === 'string' &&
+    typeof f.model === 'string' &&
+    typeof f.shape === 'string' &&
+    typeof f.material === 'string' &&
+    Array.isArray(f.colors) && f.colors.length > 0 && f.colors.every(isValidColor) &&
+    isPositiveNumber(f.lensWidthMm) &&
+    isPositiveNumber(f.bridgeMm) &&
+    isPositiveNumber(f.templeLengthMm) &&
+    isPositiveNumber(f.price) &&
+    typeof f.currency === 'string' &&
+    typeof f.imageUrl === 'string';
+};
+
+/**
+ * Loads the bundled catalog, skipping malformed entries rather than failing the whole sidebar.
+ */
+export const loadCatalog = (): CatalogFrame[] => {
+  if (catalogData.version !== CATALOG_VERSION) {
+    console.error(`Unsupported frame catalog version: ${catalogData.version}`);
+    return [];
+  }
+  const frames = catalogData.frames as unknown[];
+  const valid = frames.filter(isValidFrame);
+  if (valid.length !== frames.length) {
+    console.warn(`Skipped ${frames.length - valid.length} malformed catalog entries.`);
+  }
+  return valid;
+};
+
+/**
+ * Distinct values for the filter dropdowns.
+ */
+export const getFilterOptions = (frames: CatalogFrame[]) => ({
+  shapes: Array.from(new Set(frames.map(f => f.shape))).sort(),
+  materials: Array.from(new Set(frames.map(f => f.material))).sort(),
+});
+
+/**
+ * Applies attribute filters plus a free-text search over brand, model, shape, material and color names.
+ */
+export const filterCatalog = (frames: CatalogFrame[], { query, shape, material, maxPrice }: CatalogFilters): CatalogFrame[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return frames.filter(frame => {
+    if (shape && frame.shape !== shape) return false;
+    if (material && frame.material !== material) return false;
+    if (maxPrice !== undefined && frame.price > maxPrice) return false;
+
+    const haystack = [frame.brand, frame.model, frame.shape, frame.material, frame.sku, ...frame.colors.map(c => c.name)]
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const getFrameName = (frame: CatalogFrame) => `${frame.brand} ${frame.model}`;
+
+/**
+ * Try-on instruction for a specific SKU; the product shot goes along as the reference image.
+ */
+export const buildFramePrompt = (frame: CatalogFrame, variant: FrameColorVariant) =>
+  `wear the ${getFrameName(frame)} glasses shown in the reference image: ${frame.shape} ${frame.material} frames in ${variant.name} (${variant.hex}), lens width ${frame.lensWidthMm}mm, bridge ${frame.bridgeMm}mm`;
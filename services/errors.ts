@@ -0,0 +1,122 @@
+import { ApiError } from "@google/genai";
+import { LocalizedMessage } from "./i18n";
+
+// --- Typed generation errors ---
+// Every failure from the AI layer is normalized into one of these, so the UI can show a
+// specific message and the retry logic knows what's worth another attempt. `message` is for
+// the console; `userMessage` is a catalog key the UI translates.
+
+export class GenerationError extends Error {
+  readonly retryable: boolean;
+  readonly userMessage: LocalizedMessage;
+
+  constructor(message: string, userMessage: LocalizedMessage, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GenerationError';
+    this.userMessage = userMessage;
+    this.retryable = retryable;
+  }
+}
+
+export class RateLimitError extends GenerationError {
+  constructor(message = "Rate limit or quota exceeded.", options?: { cause?: unknown }) {
+    super(message, { key: 'error.rateLimit' }, true, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  constructor(message = "Blocked by safety filters.", options?: { cause?: unknown }) {
+    super(message, { key: 'error.safetyBlock' }, false, options);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class EmptyImageError extends GenerationError {
+  constructor(message = "No image generated from the model.", options?: { cause?: unknown }) {
+    super(message, { key: 'error.emptyImage' }, true, options);
+    this.name = 'EmptyImageError';
+  }
+}
+
+export class PayloadTooLargeError extends GenerationError {
+  constructor(message = "Request payload is too large.", options?: { cause?: unknown }) {
+    super(message, { key: 'error.payloadTooLarge' }, false, options);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message = "Network request failed.", options?: { cause?: unknown }) {
+    super(message, { key: 'error.network' }, true, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends GenerationError {
+  constructor(message = "Request timed out.", options?: { cause?: unknown }) {
+    super(message, { key: 'error.timeout' }, true, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends GenerationError {
+  constructor(message = "Request cancelled.", options?: { cause?: unknown }) {
+    super(message, { key: 'error.cancelled' }, false, options);
+    this.name = 'CancelledError';
+  }
+}
+
+export class InvalidClipError extends GenerationError {
+  constructor(message: string, userMessage: LocalizedMessage, options?: { cause?: unknown }) {
+    super(message, userMessage, false, options);
+    this.name = 'InvalidClipError';
+  }
+}
+
+// --- Import errors ---
+
+/**
+ * A session bundle that can't be imported, with the reason for the user.
+ */
+export class InvalidBundleError extends Error {
+  readonly userMessage: LocalizedMessage;
+
+  constructor(message: string, userMessage: LocalizedMessage) {
+    super(message);
+    this.name = 'InvalidBundleError';
+    this.userMessage = userMessage;
+  }
+}
+
+const PAYLOAD_PATTERN = /payload|too large|request entity|exceeds the maximum|size limit/i;
+const SAFETY_PATTERN = /safety|blocked|prohibited/i;
+const NETWORK_PATTERN = /failed to fetch|network|fetch failed|ECONNRESET|ETIMEDOUT|socket/i;
+
+/**
+ * Maps anything thrown by the SDK, fetch or our own code onto a typed GenerationError.
+ */
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const options = { cause: error };
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new CancelledError(message, options);
+  }
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new RateLimitError(message, options);
+    if (error.status === 413 || PAYLOAD_PATTERN.test(message)) return new PayloadTooLargeError(message, options);
+    if (error.status >= 500) return new NetworkError(message, options);
+    if (SAFETY_PATTERN.test(message)) return new SafetyBlockError(message, options);
+    return new GenerationError(message, { key: 'error.generic' }, false, options);
+  }
+
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new RateLimitError(message, options);
+  if (PAYLOAD_PATTERN.test(message)) return new PayloadTooLargeError(message, options);
+  if (NETWORK_PATTERN.test(message)) return new NetworkError(message, options);
+
+  return new GenerationError(message, { key: 'error.generic' }, false, options);
+};
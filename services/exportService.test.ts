@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseSessionBundle } from './exportService';
+import { InvalidBundleError } from './errors';
+import { SessionSnapshot } from '../types';
+
+const IMAGE = 'data:image/jpeg;base64,/9j/4AAQ';
+
+const snapshot: SessionSnapshot = {
+  id: 'session-1',
+  name: 'Session Oct 19',
+  createdAt: 1,
+  updatedAt: 2,
+  userImage: IMAGE,
+  referenceImage: null,
+  versions: [{ id: 'v1', parentId: null, image: IMAGE, prompt: 'round frames', createdAt: 3 }],
+  selectedVersionId: 'v1',
+  compareVersionId: null,
+  chatHistory: [],
+  faceProfile: null,
+};
+
+const bundleText = (session: unknown) => JSON.stringify({ format: 'visionary-session', version: 1, session });
+
+describe('parseSessionBundle', () => {
+  it('reads back a valid bundle', () => {
+    expect(parseSessionBundle(bundleText(snapshot))).toEqual(snapshot);
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => parseSessionBundle('not json')).toThrow(InvalidBundleError);
+    expect(() => parseSessionBundle('null')).toThrow(/Not a VisionaryAI session bundle/);
+    expect(() => parseSessionBundle(JSON.stringify({ format: 'visionary-session', version: 9 }))).toThrow(/version: 9/);
+  });
+
+  it('says why in a message the UI can translate', () => {
+    const reasonFor = (text: string) => {
+      try {
+        parseSessionBundle(text);
+      } catch (error) {
+        return (error as InvalidBundleError).userMessage;
+      }
+    };
+    expect(reasonFor('not json')).toEqual({ key: 'error.notBundle' });
+    expect(reasonFor(JSON.stringify({ format: 'visionary-session', version: 9 }))).toEqual({ key: 'error.bundleVersion', variables: { version: '9' } });
+  });
+
+  it('rejects fields the app would trip over later', () => {
+    const { prompt: _, ...withoutPrompt } = snapshot.versions[0];
+    expect(() => parseSessionBundle(bundleText({ ...snapshot, versions: [withoutPrompt] }))).toThrow(/incomplete/);
+    expect(() => parseSessionBundle(bundleText({ ...snapshot, versions: [{ ...snapshot.versions[0], parentId: 'missing' }] }))).toThrow(/incomplete/);
+    expect(() => parseSessionBundle(bundleText({ ...snapshot, chatHistory: [{ role: 'robot', text: 'hi', timestamp: 1 }] }))).toThrow(/incomplete/);
+  });
+
+  it('rejects images that are not data URLs before they reach storage', () => {
+    expect(() => parseSessionBundle(bundleText({ ...snapshot, userImage: 'https://example.com/me.jpg' }))).toThrow(/incomplete/);
+    expect(() => parseSessionBundle(bundleText({ ...snapshot, versions: [{ ...snapshot.versions[0], image: 'data:image/jpeg;base64,%%%' }] }))).toThrow(/incomplete/);
+    expect(() => parseSessionBundle(bundleText({ ...snapshot, chatHistory: [{ role: 'user', text: 'hi', timestamp: 1, contextImage: 42 }] }))).toThrow(/incomplete/);
+  });
+});
@@ -0,0 +1,458 @@
+import { jsPDF } from "jspdf";
+import { ChatMessage, LookVersion, MessageRole, SessionSnapshot } from "../types";
+import { InvalidBundleError } from "./errors";
+
+// --- Export: before/after image, PDF lookbook, and re-importable session bundle ---
+
+export interface LookbookEntry {
+  label: string;
+  image: string; // Data URL
+  prompt: string;
+  notes: string[]; // Stylist replies about this look
+  links: Array<{ title: string; uri: string }>;
+}
+
+// The lookbook's own wording, already translated
+export interface LookbookLabels {
+  heading: string;
+  summary: string; // Under the session name on the cover
+  prompt: string;
+  notes: string;
+  shop: string;
+}
+
+const BUNDLE_FORMAT = 'visionary-session';
+const BUNDLE_VERSION = 1;
+
+// --- Helpers ---
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = (e) => reject(e);
+    img.src = src;
+  });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Builds a safe file name stem from free text ("Session Oct 19" -> "session-oct-19").
+ */
+export const toFileStem = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'look';
+
+// --- Before / After PNG ---
+
+/**
+ * Renders the two images the comparison slider shows side by side, labelled, as a PNG.
+ */
+export const renderBeforeAfterPng = async (
+  beforeImage: string,
+  afterImage: string,
+  labels: { before: string; after: string } = { before: 'BEFORE', after: 'AFTER' }
+): Promise<Blob> => {
+  const [before, after] = await Promise.all([loadImage(beforeImage), loadImage(afterImage)]);
+
+  const PADDING = 32;
+  const GAP = 16;
+  const HEADER = 48;
+  const FOOTER = 40;
+
+  // Both panels share a height so faces line up
+  const panelHeight = Math.min(before.height, after.height, 1024);
+  const beforeWidth = before.width * (panelHeight / before.height);
+  const afterWidth = after.width * (panelHeight / after.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(PADDING * 2 + beforeWidth + GAP + afterWidth);
+  canvas.height = Math.round(PADDING * 2 + HEADER + panelHeight + FOOTER);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const top = PADDING + HEADER;
+  ctx.drawImage(before, PADDING, top, beforeWidth, panelHeight);
+  ctx.drawImage(after, PADDING + beforeWidth + GAP, top, afterWidth, panelHeight);
+
+  ctx.fillStyle = '#0f172a';
+  ctx.font = 'bold 20px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(labels.before, PADDING, PADDING + HEADER / 2);
+  ctx.fillText(labels.after, PADDING + beforeWidth + GAP, PADDING + HEADER / 2);
+
+  ctx.fillStyle = '#64748b';
+  ctx.font = '14px sans-serif';
+  ctx.fillText('VisionaryAI', PADDING, top + panelHeight + FOOTER / 2);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG."))), 'image/png');
+  });
+};
+
+// --- PDF Lookbook ---
+
+/**
+ * Gathers what the lookbook shows for each starred look: its prompt plus the stylist's
+ * replies and grounded shopping links from turns about that look.
+ */
+export const collectLookbookEntries = (
+  versions: LookVersion[],
+  chatHistory: ChatMessage[],
+  labelFor: (id: string) => string,
+  promptFor: (version: LookVersion) => string = version => version.prompt // What the user asked for, in their language
+): LookbookEntry[] => {
+  return versions
+    .filter(v => v.starred)
+    .map(v => {
+      const replies = chatHistory.filter(msg => msg.role === MessageRole.MODEL && !msg.isError && msg.contextImage === v.image);
+      const links = new Map<string, { title: string; uri: string }>();
+      replies.forEach(msg => msg.groundingUrls?.forEach(url => links.set(url.uri, url)));
+
+      return {
+        label: labelFor(v.id),
+        image: v.image,
+        prompt: promptFor(v),
+        notes: replies.map(msg => msg.text),
+        links: Array.from(links.values())
+      };
+    });
+};
+
+// jsPDF's built-in fonts only cover Latin script, so Persian and Arabic text is drawn by the
+// browser onto a canvas, which shapes and orders it, and placed in the PDF as an image
+const RTL_SCRIPT_PATTERN = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const RASTER_SCALE = 4;
+
+interface PdfTextStyle {
+  size: number; // pt
+  bold?: boolean;
+  color: [number, number, number];
+}
+
+const canvasFont = (style: PdfTextStyle) => `${style.bold ? 'bold ' : ''}${style.size * RASTER_SCALE}px sans-serif`;
+
+/**
+ * Breaks text into lines no wider than `maxWidth` pt, measured with the canvas font.
+ */
+const wrapOnCanvas = (text: string, style: PdfTextStyle, maxWidth: number): string[] => {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.font = canvasFont(style);
+  const fits = (line: string) => ctx.measureText(line).width / RASTER_SCALE <= maxWidth;
+
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && !fits(candidate)) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    return [...lines, line];
+  });
+};
+
+/**
+ * Draws one right-to-left line as a PNG; width and height are in pt, with the baseline `style.size` from the top.
+ */
+const rasterizeLine = (line: string, style: PdfTextStyle) => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  ctx.font = canvasFont(style);
+  canvas.width = Math.max(1, Math.ceil(ctx.measureText(line).width));
+  canvas.height = Math.ceil(style.size * 1.35 * RASTER_SCALE);
+
+  // Resizing the canvas resets its state
+  ctx.font = canvasFont(style);
+  ctx.direction = 'rtl';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = `rgb(${style.color.join(',')})`;
+  ctx.fillText(line, canvas.width, style.size * RASTER_SCALE);
+
+  return { dataUrl: canvas.toDataURL('image/png'), width: canvas.width / RASTER_SCALE, height: canvas.height / RASTER_SCALE };
+};
+
+/**
+ * Builds a multi-page A4 lookbook: a cover, then one page (or more, for long notes) per look.
+ * For a right-to-left UI the text is right-aligned.
+ */
+export const buildLookbookPdf = async (
+  entries: LookbookEntry[],
+  title: string,
+  labels: LookbookLabels,
+  dir: 'ltr' | 'rtl' = 'ltr'
+): Promise<Blob> => {
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const MARGIN = 40;
+  const contentWidth = pageWidth - MARGIN * 2;
+
+  const COVER: PdfTextStyle = { size: 28, bold: true, color: [15, 23, 42] };
+  const SUBTITLE: PdfTextStyle = { size: 14, color: [100, 116, 139] };
+  const LABEL: PdfTextStyle = { size: 20, bold: true, color: [15, 23, 42] };
+  const HEADING: PdfTextStyle = { size: 12, bold: true, color: [15, 23, 42] };
+  const BODY: PdfTextStyle = { size: 10, color: [51, 65, 85] };
+  const LINK: PdfTextStyle = { size: 10, color: [14, 165, 233] };
+
+  const setStyle = (style: PdfTextStyle) => {
+    pdf.setFont('helvetica', style.bold ? 'bold' : 'normal');
+    pdf.setFontSize(style.size);
+    pdf.setTextColor(...style.color);
+  };
+
+  const wrap = (text: string, style: PdfTextStyle): string[] => {
+    if (RTL_SCRIPT_PATTERN.test(text)) return wrapOnCanvas(text, style, contentWidth);
+    setStyle(style);
+    return pdf.splitTextToSize(text, contentWidth);
+  };
+
+  // Writes one line with its top at `top`, linked to `url` if given
+  const drawLine = (line: string, style: PdfTextStyle, top: number, url?: string) => {
+    if (RTL_SCRIPT_PATTERN.test(line)) {
+      const image = rasterizeLine(line, style);
+      const x = dir === 'rtl' ? pageWidth - MARGIN - image.width : MARGIN;
+      pdf.addImage(image.dataUrl, 'PNG', x, top, image.width, image.height);
+      if (url) pdf.link(x, top, image.width, image.height, { url });
+      return;
+    }
+    setStyle(style);
+    const x = dir === 'rtl' ? pageWidth - MARGIN - pdf.getTextWidth(line) : MARGIN;
+    if (url) pdf.textWithLink(line, x, top + style.size, { url });
+    else pdf.text(line, x, top + style.size);
+  };
+
+  // Cover
+  drawLine(labels.heading, COVER, 92);
+  drawLine(wrap(title, SUBTITLE)[0], SUBTITLE, 136);
+  drawLine(labels.summary, SUBTITLE, 158);
+
+  for (const entry of entries) {
+    pdf.addPage();
+    let y = MARGIN;
+
+    const ensureSpace = (height: number) => {
+      if (y + height > pageHeight - MARGIN) {
+        pdf.addPage();
+        y = MARGIN;
+      }
+    };
+
+    const heading = (text: string) => {
+      ensureSpace(28);
+      drawLine(text, HEADING, y);
+      y += 22;
+    };
+
+    const paragraph = (text: string) => {
+      wrap(text, BODY).forEach(line => {
+        ensureSpace(14);
+        drawLine(line, BODY, y);
+        y += 14;
+      });
+      y += 6;
+    };
+
+    drawLine(entry.label, LABEL, y);
+    y += 36;
+
+    // Image, fitted into the top half of the page
+    const { width, height } = pdf.getImageProperties(entry.image);
+    const maxHeight = pageHeight * 0.45;
+    const scale = Math.min(contentWidth / width, maxHeight / height);
+    // Region-edited looks are PNG, the rest JPEG
+    const format = entry.image.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+    const imageX = dir === 'rtl' ? pageWidth - MARGIN - width * scale : MARGIN;
+    pdf.addImage(entry.image, format, imageX, y, width * scale, height * scale);
+    y += height * scale + 20;
+
+    heading(labels.prompt);
+    paragraph(entry.prompt);
+
+    if (entry.notes.length > 0) {
+      heading(labels.notes);
+      entry.notes.forEach(paragraph);
+    }
+
+    if (entry.links.length > 0) {
+      heading(labels.shop);
+      entry.links.forEach(link => {
+        ensureSpace(14);
+        drawLine(wrap(link.title, LINK)[0], LINK, y, link.uri);
+        y += 14;
+      });
+    }
+  }
+
+  return pdf.output('blob');
+};
+
+// --- Session Bundle ---
+
+export const buildSessionBundle = (snapshot: SessionSnapshot): Blob => {
+  const bundle = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: Date.now(), session: snapshot };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+// Base64 image data URLs only; anything else would throw from atob when the session is saved
+const DATA_URL_PATTERN = /^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/]+=*$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isDataUrl = (value: unknown): value is string =>
+  typeof value === 'string' && DATA_URL_PATTERN.test(value);
+
+const isOptionalDataUrl = (value: unknown) => value === undefined || value === null || isDataUrl(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean) => Array.isArray(value) && value.every(check);
+
+const isStringOrNull = (value: unknown) => value === null || isString(value);
+
+const isMessage = (value: unknown) =>
+  isRecord(value) && isString(value.key) &&
+  isOptional(value.variables, variables => isRecord(variables) && Object.values(variables).every(v => isString(v) || isNumber(v)));
+
+const isQualityReport = (value: unknown) =>
+  isRecord(value) &&
+  isNumber(value.score) &&
+  typeof value.passed === 'boolean' &&
+  (value.identityScore === null || isNumber(value.identityScore)) &&
+  isNumber(value.framingScore) &&
+  isNumber(value.attempts) &&
+  isArrayOf(value.issues, isMessage);
+
+/**
+ * Versions come in creation order, so a parent is always listed before its children. That
+ * also rules out cycles, which would hang the lineage walk.
+ */
+const isVersionList = (value: unknown) => {
+  if (!Array.isArray(value)) return false;
+  const seen = new Set<string>();
+  return value.every(v => {
+    const valid = isRecord(v) &&
+      isString(v.id) &&
+      (v.parentId === null || (isString(v.parentId) && seen.has(v.parentId))) &&
+      isDataUrl(v.image) &&
+      isString(v.prompt) &&
+      isNumber(v.createdAt) &&
+      isOptionalDataUrl(v.referenceImage) &&
+      isOptional(v.frameSku, isString) &&
+      isOptional(v.starred, s => typeof s === 'boolean') &&
+      isOptional(v.label, isMessage) &&
+      isOptional(v.quality, isQualityReport);
+    if (valid) seen.add(v.id as string);
+    return valid;
+  });
+};
+
+const isChatMessage = (value: unknown) =>
+  isRecord(value) &&
+  Object.values(MessageRole).includes(value.role as MessageRole) &&
+  isString(value.text) &&
+  isOptional(value.modelText, isString) &&
+  isNumber(value.timestamp) &&
+  isOptional(value.isError, e => typeof e === 'boolean') &&
+  isOptionalDataUrl(value.contextImage) &&
+  isOptional(value.groundingUrls, urls => isArrayOf(urls, url => isRecord(url) && isString(url.title) && isString(url.uri))) &&
+  isOptional(value.products, products => isArrayOf(products, p =>
+    isRecord(p) && isString(p.id) && isString(p.name) && isString(p.brand) && (p.price === null || isNumber(p.price)) &&
+    isString(p.currency) && isString(p.retailer) && isString(p.rationale) && isString(p.sourceUrl)
+  ));
+
+const isPoint = (value: unknown) => isRecord(value) && isNumber(value.x) && isNumber(value.y);
+
+const isSizeRange = (value: unknown) => isRecord(value) && isNumber(value.min) && isNumber(value.max);
+
+const isMeasurement = (value: unknown) =>
+  isRecord(value) &&
+  isNumber(value.pdMm) &&
+  isNumber(value.faceWidthMm) &&
+  isSizeRange(value.lensWidthMm) &&
+  isSizeRange(value.bridgeMm) &&
+  isSizeRange(value.templeLengthMm) &&
+  isRecord(value.landmarks) &&
+  ['leftPupil', 'rightPupil', 'faceLeft', 'faceRight', 'cardLeft', 'cardRight'].every(name => isPoint((value.landmarks as Record<string, unknown>)[name]));
+
+const isFaceProfile = (value: unknown) =>
+  isRecord(value) &&
+  isString(value.faceShape) &&
+  isString(value.skinUndertone) &&
+  isString(value.browLine) &&
+  isString(value.faceWidth) &&
+  isNumber(value.estimatedFaceWidthMm) &&
+  isArrayOf(value.recommendedFrames, isString) &&
+  isArrayOf(value.discouragedFrames, isString) &&
+  isString(value.summary);
+
+const REFERENCE_VIEW_TYPES = ['front', 'side', 'detail'];
+
+/**
+ * Checks every field the app reads from a session, and that every image in it is a data URL.
+ */
+const isSessionSnapshot = (value: unknown): value is SessionSnapshot =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isNumber(value.createdAt) &&
+  isDataUrl(value.userImage) &&
+  isOptionalDataUrl(value.referenceImage) &&
+  isVersionList(value.versions) &&
+  isStringOrNull(value.selectedVersionId) &&
+  isStringOrNull(value.compareVersionId) &&
+  isArrayOf(value.chatHistory, isChatMessage) &&
+  (value.faceProfile === null || isFaceProfile(value.faceProfile)) &&
+  isOptional(value.measurement, m => m === null || isMeasurement(m)) &&
+  isOptional(value.referenceViews, views => isArrayOf(views, r => isRecord(r) && REFERENCE_VIEW_TYPES.includes(r.view as string) && isDataUrl(r.image)));
+
+/**
+ * Parses an exported bundle back into a session snapshot. Throws an InvalidBundleError on
+ * anything that isn't one.
+ */
+export const parseSessionBundle = (text: string): SessionSnapshot => {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new InvalidBundleError("Not valid JSON.", { key: 'error.notBundle' });
+  }
+
+  if (!isRecord(bundle) || bundle.format !== BUNDLE_FORMAT) {
+    throw new InvalidBundleError("Not a VisionaryAI session bundle.", { key: 'error.notBundle' });
+  }
+  if (bundle.version !== BUNDLE_VERSION) {
+    throw new InvalidBundleError(`Unsupported session bundle version: ${bundle.version}.`, { key: 'error.bundleVersion', variables: { version: String(bundle.version) } });
+  }
+  if (!isSessionSnapshot(bundle.session)) {
+    throw new InvalidBundleError("Session bundle is incomplete.", { key: 'error.bundleIncomplete' });
+  }
+
+  return bundle.session;
+};
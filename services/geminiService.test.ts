@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeFace, chatWithStylist, detectIntent, generateEyewearImage, withFrameAttributes } from './geminiService';
+import { createGeminiProvider, setProvider } from './providers';
+import { EmptyImageError, GenerationError, SafetyBlockError } from './errors';
+import { genaiMock, streamOf } from '../test/genaiStub';
+import { MessageRole } from '../types';
+
+describe('detectIntent', () => {
+  it.each([
+    ['undo that', 'UNDO'],
+    ['go back to the previous look', 'UNDO'],
+    ['redo that', 'REDO'],
+    ['compare this with the first one', 'COMPARE'],
+    ['where can I buy these?', 'SHOP'],
+    ['find similar frames', 'SHOP'],
+    ['make the frames red', 'EDIT'],
+    ['try thinner rims', 'EDIT'],
+    ['do these suit me?', 'ADVICE'],
+  ])('routes "%s" to %s', (message, intent) => {
+    expect(detectIntent(message).intent).toBe(intent);
+  });
+
+  it('checks shopping before visual keywords', () => {
+    expect(detectIntent('find these in red').intent).toBe('SHOP');
+  });
+
+  it('picks up frame attributes', () => {
+    expect(detectIntent('make them round gold metal frames')).toEqual({
+      intent: 'EDIT',
+      attributes: { color: 'gold', shape: 'round', material: 'metal' },
+      source: 'keywords',
+    });
+  });
+});
+
+describe('withFrameAttributes', () => {
+  it('spells out extracted attributes for the edit and shopping prompts', () => {
+    expect(withFrameAttributes('make them round gold metal frames', { color: 'gold', shape: 'round', material: 'metal' }))
+      .toBe('make them round gold metal frames (requested frame shape: round, color: gold, material: metal)');
+    expect(withFrameAttributes('make them thinner', {})).toBe('make them thinner');
+  });
+});
+
+describe('with the Gemini provider', () => {
+  beforeEach(() => {
+    setProvider(createGeminiProvider({ apiKey: 'test-key' }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setProvider(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('streams the stylist answer and extracts grounding links with citations', async () => {
+    genaiMock.generateContentStream.mockReturnValue(streamOf([
+      { text: 'Try the Ray-Ban RB3025. ' },
+      {
+        text: 'Warby Parker has a similar pair.',
+        candidates: [{
+          groundingMetadata: {
+            groundingChunks: [
+              { web: { uri: 'https://example.com/rayban', title: 'Ray-Ban' } },
+              { retrievedContext: {} }, // No web source, so it's dropped
+              { web: { uri: 'https://example.com/warby', title: 'Warby Parker' } },
+            ],
+            groundingSupports: [
+              { segment: { text: 'Try the Ray-Ban RB3025.' }, groundingChunkIndices: [0] },
+              { segment: { text: 'Warby Parker has a similar pair.' }, groundingChunkIndices: [2, 1] },
+            ],
+          },
+        }],
+      },
+    ]));
+    const onText = vi.fn();
+
+    const result = await chatWithStylist('Where can I buy these?', null, [], undefined, { onText });
+
+    expect(onText).toHaveBeenLastCalledWith('Try the Ray-Ban RB3025. Warby Parker has a similar pair.');
+    expect(result.text).toBe('Try the Ray-Ban RB3025.[1] Warby Parker has a similar pair.[2]');
+    expect(result.groundingUrls).toEqual([
+      { title: 'Ray-Ban', uri: 'https://example.com/rayban' },
+      { title: 'Warby Parker', uri: 'https://example.com/warby' },
+    ]);
+    expect(genaiMock.generateContentStream.mock.calls[0][0].config.tools).toEqual([{ googleSearch: {} }]);
+  });
+
+  it('asks the stylist to reply in the user\'s language and shop in their country', async () => {
+    genaiMock.generateContentStream.mockReturnValue(streamOf([{ text: 'سلام' }]));
+
+    await chatWithStylist('این عینک به من می‌آید؟', null, [], undefined, { locale: { language: 'Persian', country: 'Iran (IR)' } });
+
+    const instruction = genaiMock.generateContentStream.mock.calls[0][0].config.systemInstruction;
+    expect(instruction).toContain('Always reply in Persian');
+    expect(instruction).toContain('The user shops in Iran (IR)');
+  });
+
+  it('sends the model the English text of a translated chat turn', async () => {
+    genaiMock.generateContentStream.mockReturnValue(streamOf([{ text: 'خوب است' }]));
+    const history = [{ role: MessageRole.USER, text: 'می‌توانم این عینک را امتحان کنم؟', modelText: 'Can I try on the Solano Aviator in Gold?', timestamp: 1 }];
+
+    await chatWithStylist('نظرت چیست؟', null, history);
+
+    const contents = JSON.stringify(genaiMock.generateContentStream.mock.calls[0][0].contents);
+    expect(contents).toContain('Can I try on the Solano Aviator in Gold?');
+    expect(contents).not.toContain('امتحان کنم');
+  });
+
+  it('returns the edited image from the first inline part', async () => {
+    genaiMock.generateContent.mockResolvedValue({
+      candidates: [{ content: { parts: [{ inlineData: { data: 'RESULT', mimeType: 'image/png' } }] } }],
+    });
+
+    await expect(generateEyewearImage('BASE', 'round frames')).resolves.toBe('RESULT');
+    const parts = genaiMock.generateContent.mock.calls[0][0].contents.parts;
+    expect(parts[0].inlineData.data).toBe('BASE');
+    expect(parts.at(-1).text).toContain('round frames');
+  });
+
+  it('retries an empty image response and then gives up with EmptyImageError', async () => {
+    vi.useFakeTimers();
+    genaiMock.generateContent.mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'No image, sorry.' }] } }] });
+
+    const result = generateEyewearImage('BASE', 'round frames');
+    const assertion = expect(result).rejects.toBeInstanceOf(EmptyImageError);
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(genaiMock.generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('reports an unusable structured answer as a GenerationError', async () => {
+    genaiMock.generateContent.mockResolvedValue({ text: '{"faceShape":"oval"}' });
+
+    const error = await analyzeFace('BASE').catch(e => e);
+    expect(error).toBeInstanceOf(GenerationError);
+    expect(error.userMessage).toEqual({ key: 'error.generic' });
+  });
+
+  it('does not retry a safety block', async () => {
+    genaiMock.generateContent.mockResolvedValue({ promptFeedback: { blockReason: 'SAFETY' } });
+
+    await expect(generateEyewearImage('BASE', 'round frames')).rejects.toBeInstanceOf(SafetyBlockError);
+    expect(genaiMock.generateContent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,137 +1,912 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { ChatMessage, MessageRole } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type } from "@google/genai";
+import { ChatMessage, MessageRole, IntentAttributes, IntentResult, IntentType, FaceProfile, StyleSuitability, ProductResult, FaceLandmarks, Point, ReferenceViewType, EyewearLocation, DetectedFace, StylistLocale } from "../types";
+import { getProvider, GroundingChunk, GroundingSupport, ProviderContent, ProviderPart } from "./providers";
+import { DEFAULT_LANDMARKS } from "./measurementService";
+import { CancelledError, PayloadTooLargeError, toGenerationError } from "./errors";
+import { RequestOptions, withRetry } from "./retry";
+import { renderPrompt } from "./promptRegistry";
+import { DEFAULT_STYLIST_LOCALE } from "./i18n";
 
 // --- Helpers ---
 
-const fileToGenerativePart = (base64Data: string, mimeType: string) => {
+// Region edits produce lossless PNG looks; everything else in the app is JPEG
+const PNG_BASE64_SIGNATURE = 'iVBORw0KGgo';
+
+const fileToGenerativePart = (base64Data: string, mimeType: string): ProviderPart => {
   return {
     inlineData: {
       data: base64Data,
-      mimeType
+      mimeType: base64Data.startsWith(PNG_BASE64_SIGNATURE) ? 'image/png' : mimeType
     },
   };
 };
 
+const extractGroundingUrls = (chunks: GroundingChunk[]): Array<{ title: string; uri: string }> =>
+  chunks
+    .filter(chunk => chunk.web?.uri && chunk.web?.title)
+    .map(chunk => ({
+      title: chunk.web!.title!,
+      uri: chunk.web!.uri!
+    }));
+
+/**
+ * Puts [n] citation markers after each grounded span of the answer, where n is the 1-based
+ * position of the source in the extracted grounding URLs. Segment offsets from the API count
+ * UTF-8 bytes, so spans are located by their text instead.
+ */
+export const addCitationMarkers = (text: string, supports: GroundingSupport[], chunks: GroundingChunk[]): string => {
+  // Chunks without a URL are dropped by extractGroundingUrls, so renumber the rest
+  const urlNumberByChunk = new Map<number, number>();
+  chunks.forEach((chunk, i) => {
+    if (chunk.web?.uri && chunk.web?.title) urlNumberByChunk.set(i, urlNumberByChunk.size + 1);
+  });
+
+  const markersByOffset = new Map<number, Set<number>>();
+  let searchFrom = 0;
+  supports.forEach(support => {
+    const segmentText = support.segment?.text;
+    const numbers = (support.groundingChunkIndices ?? [])
+      .map(i => urlNumberByChunk.get(i))
+      .filter((n): n is number => n !== undefined);
+    if (!segmentText || numbers.length === 0) return;
+
+    // Supports come in answer order; fall back to a full search if one is out of order
+    let start = text.indexOf(segmentText, searchFrom);
+    if (start === -1) start = text.indexOf(segmentText);
+    if (start === -1) return;
+
+    const end = start + segmentText.length;
+    searchFrom = end;
+    const markers = markersByOffset.get(end) ?? new Set<number>();
+    numbers.forEach(n => markers.add(n));
+    markersByOffset.set(end, markers);
+  });
+
+  // Insert from the back so earlier offsets stay valid
+  return Array.from(markersByOffset.entries())
+    .sort(([a], [b]) => b - a)
+    .reduce((result, [offset, numbers]) => {
+      const markers = Array.from(numbers).sort((a, b) => a - b).map(n => `[${n}]`).join('');
+      return result.slice(0, offset) + markers + result.slice(offset);
+    }, text);
+};
+
+// Inline request data limit for Gemini is 20MB; stay under it with headroom for text
+const MAX_INLINE_PAYLOAD_BYTES = 18 * 1024 * 1024;
+
+// Per-attempt timeouts
+const IMAGE_TIMEOUT_MS = 90_000;
+const CHAT_TIMEOUT_MS = 60_000;
+const STRUCTURED_TIMEOUT_MS = 20_000;
+
+/**
+ * Rejects requests whose inline images would exceed the API limit before we spend a round trip.
+ */
+const assertPayloadSize = (parts: ProviderPart[]) => {
+  const bytes = parts.reduce((total, part) => total + ('inlineData' in part ? part.inlineData.data.length * 0.75 : 0), 0);
+  if (bytes > MAX_INLINE_PAYLOAD_BYTES) {
+    throw new PayloadTooLargeError(`Inline images total ${Math.round(bytes / 1024 / 1024)}MB.`);
+  }
+};
+
+const stripDataUrl = (dataUrl: string) => dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+
+// --- Conversation Memory ---
+
+// Rough token budget for prior turns (text only, ~4 chars per token).
+const HISTORY_TOKEN_BUDGET = 4000;
+// Earlier looks re-sent as images; everything older is referenced by label only.
+const MAX_HISTORY_IMAGES = 2;
+const SUMMARY_TURN_CHARS = 160;
+const SUMMARY_MAX_CHARS = 1200;
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const truncate = (text: string, maxChars: number) =>
+  text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+
+/**
+ * Renders a turn as text, including any shopping links we gave so the model can
+ * resolve follow-ups like "the second link".
+ */
+const turnToText = (msg: ChatMessage, lookLabel?: string): string => {
+  const message = msg.modelText ?? msg.text;
+  let text = lookLabel ? `[About ${lookLabel}] ${message}` : message;
+  if (msg.groundingUrls && msg.groundingUrls.length > 0) {
+    const links = msg.groundingUrls.map((url, i) => `${i + 1}. ${url.title} - ${url.uri}`).join('\n');
+    text += `\n\nLinks provided:\n${links}`;
+  }
+  return text;
+};
+
+const summarizeTurns = (turns: ChatMessage[]): string => {
+  const lines = turns.map(msg => `${msg.role === MessageRole.USER ? 'User' : 'Stylist'}: ${truncate(msg.modelText ?? msg.text, SUMMARY_TURN_CHARS)}`);
+  return truncate(lines.join('\n'), SUMMARY_MAX_CHARS);
+};
+
+/**
+ * Maps prior chat turns into multi-turn `contents`, newest turns first within the token budget.
+ * Older turns are collapsed into a short summary, and each distinct look is labelled so
+ * the model knows which image a turn was about.
+ */
+export const buildChatContents = (
+  history: ChatMessage[],
+  message: string,
+  currentImageBase64: string | null,
+  compareImageBase64?: string
+): ProviderContent[] => {
+  const usable = history.filter(msg => !msg.isError && msg.role !== MessageRole.SYSTEM);
+
+  // Label each distinct look in order of first appearance
+  const lookLabels = new Map<string, string>();
+  usable.forEach(msg => {
+    if (msg.contextImage && !lookLabels.has(msg.contextImage)) {
+      lookLabels.set(msg.contextImage, `look #${lookLabels.size + 1}`);
+    }
+  });
+  const isCurrentLook = (dataUrl: string) => !!currentImageBase64 && stripDataUrl(dataUrl) === currentImageBase64;
+
+  // Keep the most recent turns that fit in the budget
+  let remaining = HISTORY_TOKEN_BUDGET;
+  let firstKept = usable.length;
+  for (let i = usable.length - 1; i >= 0; i--) {
+    const msg = usable[i];
+    const cost = estimateTokens(turnToText(msg, msg.contextImage && lookLabels.get(msg.contextImage)));
+    if (cost > remaining) break;
+    remaining -= cost;
+    firstKept = i;
+  }
+  const older = usable.slice(0, firstKept);
+  const kept = usable.slice(firstKept);
+
+  // Re-attach images for the latest few looks that aren't the current one
+  const attachedLooks = new Set<string>();
+  const attachImageAt = new Set<number>();
+  for (let i = kept.length - 1; i >= 0 && attachedLooks.size < MAX_HISTORY_IMAGES; i--) {
+    const look = kept[i].contextImage;
+    if (look && !isCurrentLook(look) && !attachedLooks.has(look)) {
+      attachedLooks.add(look);
+      attachImageAt.add(i);
+    }
+  }
+
+  const contents: ProviderContent[] = [];
+  const pushTurn = (role: 'user' | 'model', parts: ProviderPart[]) => {
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts = [...last.parts, ...parts];
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  if (older.length > 0) {
+    pushTurn('user', [{ text: `Summary of our earlier conversation:\n${summarizeTurns(older)}` }]);
+  }
+
+  kept.forEach((msg, i) => {
+    const role = msg.role === MessageRole.USER ? 'user' : 'model';
+    const look = msg.contextImage;
+    const label = look ? (isCurrentLook(look) ? `${lookLabels.get(look)}, the current look` : lookLabels.get(look)) : undefined;
+    const parts: ProviderPart[] = [];
+    // Images can only be sent on user turns
+    if (look && role === 'user' && attachImageAt.has(i)) {
+      parts.push(fileToGenerativePart(stripDataUrl(look), 'image/jpeg'));
+    }
+    parts.push({ text: turnToText(msg, label) });
+    pushTurn(role, parts);
+  });
+
+  // The conversation must open with a user turn
+  while (contents.length > 0 && contents[0].role === 'model') {
+    contents.shift();
+  }
+
+  // Current turn: the look being discussed plus the message
+  const currentParts: ProviderPart[] = [];
+  if (currentImageBase64) {
+    currentParts.push(fileToGenerativePart(currentImageBase64, 'image/jpeg'));
+    currentParts.push({ text: "This is the current image of the user wearing glasses. Focus on the glasses style, shape, color, and material." });
+  }
+  if (compareImageBase64) {
+    currentParts.push(fileToGenerativePart(compareImageBase64, 'image/jpeg'));
+    currentParts.push({ text: "This is the other look the user wants to compare against the current one." });
+  }
+  currentParts.push({ text: message });
+  pushTurn('user', currentParts);
+
+  return contents;
+};
+
 // --- Image Editing / Generation (Visual Try-On) ---
 
 /**
  * Edits the user's photo to add glasses or modify existing ones.
- * Uses gemini-2.5-flash-image (Nano Banana).
+ * Uses the configured provider's image model (gemini-2.5-flash-image by default).
  */
 export const generateEyewearImage = async (
   baseImageBase64: string,
   prompt: string,
-  referenceImageBase64?: string
+  references: Array<{ base64: string; view: ReferenceViewType }> = [],
+  { signal }: RequestOptions = {}
 ): Promise<string> => {
   try {
-    const model = 'gemini-2.5-flash-image';
-    
-    const parts: any[] = [];
+    const parts: ProviderPart[] = [];
 
     // 1. Add the base image (User's face)
     // Ensure we strictly label it as image/jpeg as expected by the model if we normalized it
     parts.push(fileToGenerativePart(baseImageBase64, 'image/jpeg'));
 
-    // 2. Add the reference image (Glasses) if provided
-    if (referenceImageBase64) {
-      parts.push(fileToGenerativePart(referenceImageBase64, 'image/jpeg'));
-    }
+    // 2. Add the reference views (Glasses) if provided
+    references.forEach(reference => parts.push(fileToGenerativePart(reference.base64, 'image/jpeg')));
 
     // 3. Add the text prompt
-    // We refine the prompt to ensure the model understands the task is editing/compositing.
-    let finalPrompt = prompt;
-    if (referenceImageBase64) {
-      finalPrompt = `Using the first image as the base and the second image as a reference for the eyewear style, ${prompt}. Ensure the glasses fit the face naturally with correct perspective, lighting, and shadows. High quality, photorealistic.`;
+    // The wrapper templates make sure the model treats the task as editing/compositing.
+    const model = getProvider().models.image;
+    let finalPrompt: string;
+    if (references.length > 1) {
+      const views = references.map((reference, i) => `image ${i + 2} is the ${reference.view} view`).join(', ');
+      finalPrompt = renderPrompt('eyewear-edit-multi-view', { prompt, views }, { model });
+    } else if (references.length === 1) {
+      finalPrompt = renderPrompt('eyewear-edit-reference', { prompt }, { model });
     } else {
-      finalPrompt = `Edit the image to: ${prompt}. Ensure photorealistic results, correct lighting, and natural fit on the face. High resolution.`;
+      finalPrompt = renderPrompt('eyewear-edit', { prompt }, { model });
     }
 
     parts.push({ text: finalPrompt });
 
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts },
-      config: {
-        responseModalities: [Modality.IMAGE],
+    assertPayloadSize(parts);
+
+    return await withRetry(
+      attemptSignal => getProvider().editImage({ parts, signal: attemptSignal }),
+      { signal, timeoutMs: IMAGE_TIMEOUT_MS }
+    );
+
+  } catch (error) {
+    console.error("Error generating eyewear image:", error);
+    throw toGenerationError(error);
+  }
+};
+
+/**
+ * Edits only the masked region of an image. The mask is a black and white PNG of the same
+ * size, white where the change should happen. The caller blends the result back inside the
+ * mask, so anything the model changes outside it is discarded.
+ */
+export const editImageRegion = async (
+  baseImageBase64: string,
+  maskBase64: string,
+  instruction: string,
+  { signal }: RequestOptions = {}
+): Promise<string> => {
+  try {
+    const parts: ProviderPart[] = [
+      fileToGenerativePart(baseImageBase64, 'image/jpeg'),
+      fileToGenerativePart(maskBase64, 'image/png'),
+      { text: `The second image is a mask for the first. Edit only the area that is white in the mask: ${instruction}. Keep everything in the black area exactly as it is, and blend the edit seamlessly with its surroundings, matching lighting and perspective. Photorealistic.` }
+    ];
+    assertPayloadSize(parts);
+
+    return await withRetry(
+      attemptSignal => getProvider().editImage({ parts, signal: attemptSignal }),
+      { signal, timeoutMs: IMAGE_TIMEOUT_MS }
+    );
+
+  } catch (error) {
+    console.error("Error editing image region:", error);
+    throw toGenerationError(error);
+  }
+};
+
+// --- Look Verification ---
+
+const lookVerificationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    identityScore: { type: Type.INTEGER, description: "0-100: how certainly the second image shows the same person as the first (face shape, features, skin, hair, expression)." },
+    eyewearPresent: { type: Type.BOOLEAN, description: "Whether the person in the second image is wearing glasses." },
+    issues: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Short, specific problems with the second image compared with the first, e.g. 'nose shape changed', 'photo is cropped tighter'. Empty if none.",
+    },
+  },
+  required: ['identityScore', 'eyewearPresent', 'issues'],
+};
+
+/**
+ * Asks the verifier model whether a generated look kept the person's identity and actually
+ * shows glasses. Local checks (framing, size) are done by the caller.
+ */
+export const verifyLook = async (
+  baseImageBase64: string,
+  resultImageBase64: string,
+  { signal }: RequestOptions = {}
+): Promise<{ identityScore: number; eyewearPresent: boolean; issues: string[] }> => {
+  try {
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'verify-look',
+      contents: [{
+        role: 'user',
+        parts: [
+          fileToGenerativePart(baseImageBase64, 'image/jpeg'),
+          fileToGenerativePart(resultImageBase64, 'image/jpeg'),
+          { text: "The first image is the original photo, the second is an edit that should only change the eyewear. Check the edit." }
+        ]
+      }],
+      systemInstruction: "You are a strict quality reviewer for a virtual eyewear try-on. Only the glasses may differ between the two images; flag any change to the person's identity, features, pose, framing or background.",
+      schema: lookVerificationSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS, retries: 0 }) as { identityScore?: number; eyewearPresent?: boolean; issues?: string[] } | null;
+
+    if (typeof raw?.identityScore !== 'number' || typeof raw.eyewearPresent !== 'boolean') {
+      throw new Error("Incomplete verification from the model.");
+    }
+    return {
+      identityScore: Math.max(0, Math.min(100, Math.round(raw.identityScore))),
+      eyewearPresent: raw.eyewearPresent,
+      issues: Array.isArray(raw.issues) ? raw.issues : []
+    };
+
+  } catch (error) {
+    console.error("Error verifying look:", error);
+    throw toGenerationError(error);
+  }
+};
+
+// --- Reference Preprocessing ---
+
+const eyewearLocationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    found: { type: Type.BOOLEAN, description: "Whether a pair of glasses or sunglasses is visible." },
+    box: {
+      type: Type.OBJECT,
+      description: "Tight bounding box around the whole frame including temples, as fractions of the image size.",
+      properties: {
+        x: { type: Type.NUMBER },
+        y: { type: Type.NUMBER },
+        width: { type: Type.NUMBER },
+        height: { type: Type.NUMBER },
       },
-    });
+      required: ['x', 'y', 'width', 'height'],
+    },
+    rotationDegrees: { type: Type.NUMBER, description: "Clockwise tilt of the frame front from horizontal, -45 to 45." },
+  },
+  required: ['found'],
+};
 
-    // Extract the image
-    const generatedPart = response.candidates?.[0]?.content?.parts?.[0];
-    if (!generatedPart || !generatedPart.inlineData) {
-      throw new Error("No image generated from the model.");
+/**
+ * Finds the eyewear in a reference photo so it can be cropped and leveled locally.
+ */
+export const locateEyewear = async (imageBase64: string, { signal }: RequestOptions = {}): Promise<EyewearLocation> => {
+  try {
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'locate-eyewear',
+      contents: [{
+        role: 'user',
+        parts: [
+          fileToGenerativePart(imageBase64, 'image/jpeg'),
+          { text: "Locate the glasses in this image." }
+        ]
+      }],
+      systemInstruction: "You locate eyewear in product photos and portraits. Report one bounding box around the most prominent pair of glasses, whether worn or not.",
+      schema: eyewearLocationSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS }) as Partial<EyewearLocation> | null;
+
+    const box = raw?.box;
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    if (!raw?.found || !box || box.width <= 0 || box.height <= 0) {
+      return { found: false, box: { x: 0, y: 0, width: 1, height: 1 }, rotationDegrees: 0 };
     }
 
-    return generatedPart.inlineData.data;
+    return {
+      found: true,
+      box: { x: clamp(box.x), y: clamp(box.y), width: clamp(box.width), height: clamp(box.height) },
+      rotationDegrees: Math.max(-45, Math.min(45, raw.rotationDegrees ?? 0))
+    };
 
   } catch (error) {
-    console.error("Error generating eyewear image:", error);
-    throw error;
+    console.error("Error locating eyewear:", error);
+    throw toGenerationError(error);
+  }
+};
+
+/**
+ * Asks the image model to isolate the glasses on a plain white background, dropping any
+ * face, hands or scenery from the reference.
+ */
+export const isolateEyewear = async (imageBase64: string, { signal }: RequestOptions = {}): Promise<string> => {
+  try {
+    const parts: ProviderPart[] = [
+      fileToGenerativePart(imageBase64, 'image/jpeg'),
+      { text: "Isolate the glasses in this image as a clean product shot: only the eyewear, centered, facing the camera, on a plain pure white background. Remove any person, face, hands, props and scenery. Keep the exact frame shape, color, material, lens tint and details." }
+    ];
+    assertPayloadSize(parts);
+
+    return await withRetry(
+      attemptSignal => getProvider().editImage({ parts, signal: attemptSignal }),
+      { signal, timeoutMs: IMAGE_TIMEOUT_MS }
+    );
+
+  } catch (error) {
+    console.error("Error isolating eyewear:", error);
+    throw toGenerationError(error);
   }
 };
 
 // --- Chat / Consultation (Text & Grounding) ---
 
+export interface StylistChatOptions extends RequestOptions {
+  onText?: (textSoFar: string) => void; // Streams the answer; restarts from scratch on a retry
+  locale?: StylistLocale; // Reply language and shopping country; English and the US by default
+}
+
 /**
  * Chat with the AI Stylist. Can answer questions and find shopping links.
- * Uses gemini-3-pro-preview.
+ * Uses the configured provider's chat model (gemini-3-pro-preview by default).
+ * The answer streams through `onText`; the resolved text also carries [n] citation markers.
+ * Replies come in the language of `locale`, and shopping favours retailers in its country.
  */
 export const chatWithStylist = async (
   message: string,
   currentImageBase64: string | null,
-  history: ChatMessage[]
+  history: ChatMessage[],
+  compareImageBase64?: string,
+  { signal, onText, locale = DEFAULT_STYLIST_LOCALE }: StylistChatOptions = {}
 ): Promise<{ text: string; groundingUrls: Array<{ title: string; uri: string }> }> => {
   try {
-    const model = 'gemini-3-pro-preview';
+    // Prepare contents: prior turns (trimmed to budget) followed by the current look(s) and message
+    const contents = buildChatContents(history, message, currentImageBase64, compareImageBase64);
 
-    // Prepare contents
-    const parts: any[] = [];
+    assertPayloadSize(contents.flatMap(content => content.parts));
+
+    // Use Search Grounding for shopping links
+    const response = await withRetry(attemptSignal => getProvider().chat({
+      contents,
+      enableSearch: true,
+      onText,
+      signal: attemptSignal,
+      systemInstruction: renderPrompt('stylist-system', locale, { model: getProvider().models.chat }),
+    }), { signal, timeoutMs: CHAT_TIMEOUT_MS });
+
+    const text = response.text
+      ? addCitationMarkers(response.text, response.groundingSupports, response.groundingChunks)
+      : "I couldn't generate a text response.";
     
-    // Context: The current look
-    if (currentImageBase64) {
-      parts.push(fileToGenerativePart(currentImageBase64, 'image/jpeg'));
-      parts.push({ text: "This is the current image of the user wearing glasses. Focus on the glasses style, shape, color, and material." });
+    // Extract Grounding URLs
+    const groundingUrls = extractGroundingUrls(response.groundingChunks);
+
+    return { text, groundingUrls };
+
+  } catch (error) {
+    console.error("Error in stylist chat:", error);
+    throw toGenerationError(error);
+  }
+};
+
+// --- Shopping (Structured Product Results) ---
+
+const MAX_PRODUCTS = 8;
+
+const productListSchema = {
+  type: Type.OBJECT,
+  properties: {
+    products: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          brand: { type: Type.STRING },
+          price: { type: Type.NUMBER, description: "Listed price, omit if unknown." },
+          currency: { type: Type.STRING, description: "ISO 4217 code, e.g. USD." },
+          retailer: { type: Type.STRING },
+          imageUrl: { type: Type.STRING, description: "Direct product image URL if the source gives one." },
+          rationale: { type: Type.STRING, description: "One sentence on why it resembles the user's glasses." },
+          sourceIndex: { type: Type.INTEGER, description: "Number of the source this product was found in." },
+        },
+        required: ['name', 'brand', 'retailer', 'rationale', 'sourceIndex'],
+      },
+    },
+  },
+  required: ['products'],
+};
+
+type RawProduct = {
+  name?: string;
+  brand?: string;
+  price?: number;
+  currency?: string;
+  retailer?: string;
+  imageUrl?: string;
+  rationale?: string;
+  sourceIndex?: number;
+};
+
+/**
+ * Keeps only products that point at a real grounding source, and takes the URL from that
+ * source rather than trusting one the model wrote out.
+ */
+export const crossCheckProducts = (
+  raw: RawProduct[],
+  sources: Array<{ title: string; uri: string }>
+): ProductResult[] => {
+  const products: ProductResult[] = [];
+  raw.forEach((item, i) => {
+    // Sources are numbered from 1 in the prompt
+    const source = typeof item.sourceIndex === 'number' ? sources[item.sourceIndex - 1] : undefined;
+    if (!source || !item.name) return;
+
+    products.push({
+      id: `${i}-${source.uri}`,
+      name: item.name,
+      brand: item.brand || '',
+      price: typeof item.price === 'number' && item.price > 0 ? item.price : null,
+      currency: /^[A-Z]{3}$/.test(item.currency || '') ? item.currency! : 'USD',
+      retailer: item.retailer || source.title,
+      imageUrl: item.imageUrl?.startsWith('https://') ? item.imageUrl : undefined,
+      rationale: item.rationale || '',
+      sourceUrl: source.uri
+    });
+  });
+  return products.slice(0, MAX_PRODUCTS);
+};
+
+/**
+ * Shopping mode: a grounded stylist answer plus typed product results extracted from it.
+ * Frame attributes from intent classification narrow the search.
+ * If extraction fails the answer and grounding links still come back, with no products.
+ */
+export const shopForLook = async (
+  message: string,
+  currentImageBase64: string | null,
+  history: ChatMessage[],
+  { attributes = {}, ...options }: StylistChatOptions & { attributes?: IntentAttributes } = {}
+): Promise<{ text: string; groundingUrls: Array<{ title: string; uri: string }>; products: ProductResult[] }> => {
+  const { signal } = options;
+  const answer = await chatWithStylist(withFrameAttributes(message, attributes), currentImageBase64, history, undefined, options);
+  if (answer.groundingUrls.length === 0) {
+    return { ...answer, products: [] };
+  }
+
+  const sourceList = answer.groundingUrls.map((url, i) => `${i + 1}. ${url.title} - ${url.uri}`).join('\n');
+
+  try {
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'extract-products',
+      contents: [{
+        role: 'user',
+        parts: [{ text: `Shopping answer:\n${answer.text}\n\nSources:\n${sourceList}` }]
+      }],
+      systemInstruction: "Extract the purchasable eyewear products mentioned in the shopping answer. Only include products that come from one of the numbered sources, and give that source's number. Never invent prices or products.",
+      schema: productListSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS }) as { products?: RawProduct[] } | null;
+
+    return { ...answer, products: crossCheckProducts(raw?.products || [], answer.groundingUrls) };
+  } catch (error) {
+    if (error instanceof CancelledError) throw error;
+    console.warn("Product extraction failed, showing links only:", error);
+    return { ...answer, products: [] };
+  }
+};
+
+// --- Face Analysis ---
+
+export const FRAME_FAMILIES = [
+  'aviator', 'wayfarer', 'cat-eye', 'round', 'rimless', 'rectangular', 'square', 'oval', 'geometric', 'browline', 'oversized'
+];
+
+const faceProfileSchema = {
+  type: Type.OBJECT,
+  properties: {
+    faceShape: { type: Type.STRING, enum: ['oval', 'round', 'square', 'heart'] },
+    skinUndertone: { type: Type.STRING, enum: ['warm', 'cool', 'neutral'] },
+    browLine: { type: Type.STRING, enum: ['straight', 'arched', 'rounded', 'angled'] },
+    faceWidth: { type: Type.STRING, enum: ['narrow', 'medium', 'wide'] },
+    estimatedFaceWidthMm: { type: Type.NUMBER, description: "Estimated temple-to-temple face width in millimeters." },
+    recommendedFrames: { type: Type.ARRAY, items: { type: Type.STRING, enum: FRAME_FAMILIES } },
+    discouragedFrames: { type: Type.ARRAY, items: { type: Type.STRING, enum: FRAME_FAMILIES } },
+    summary: { type: Type.STRING, description: "One or two sentences of frame advice for this face." },
+  },
+  required: ['faceShape', 'skinUndertone', 'browLine', 'faceWidth', 'estimatedFaceWidthMm', 'recommendedFrames', 'discouragedFrames', 'summary'],
+};
+
+/**
+ * Analyzes the user's photo once and returns a face shape and fit profile with
+ * recommended and discouraged frame families.
+ */
+export const analyzeFace = async (userImageBase64: string, { signal }: RequestOptions = {}): Promise<FaceProfile> => {
+  try {
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'analyze-face',
+      contents: [{
+        role: 'user',
+        parts: [
+          fileToGenerativePart(userImageBase64, 'image/jpeg'),
+          { text: "Analyze this face for eyewear fitting." }
+        ]
+      }],
+      systemInstruction: "You are an expert optician. From a single portrait, determine the face shape, skin undertone, brow line and approximate face width, then recommend frame families that flatter the face and list the ones to avoid. Never recommend and discourage the same family.",
+      schema: faceProfileSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS }) as FaceProfile | null;
+
+    if (!raw || !raw.faceShape || !Array.isArray(raw.recommendedFrames) || !Array.isArray(raw.discouragedFrames)) {
+      throw new Error("Incomplete face analysis from the model.");
     }
 
-    parts.push({ text: message });
+    // A family can't be both; recommendation wins
+    const discouragedFrames = raw.discouragedFrames.filter(f => !raw.recommendedFrames.includes(f));
+    return { ...raw, discouragedFrames };
+
+  } catch (error) {
+    console.error("Error analyzing face:", error);
+    throw toGenerationError(error);
+  }
+};
+
+/**
+ * Rates a frame family against a face profile.
+ */
+export const rateStyle = (profile: FaceProfile | null, family: string): StyleSuitability => {
+  if (!profile) return 'neutral';
+  if (profile.recommendedFrames.includes(family)) return 'recommended';
+  if (profile.discouragedFrames.includes(family)) return 'discouraged';
+  return 'neutral';
+};
+
+// --- Landmark Detection (Measurement) ---
+
+const pointSchema = {
+  type: Type.OBJECT,
+  properties: {
+    x: { type: Type.NUMBER, description: "0 (left edge) to 1 (right edge) of the image." },
+    y: { type: Type.NUMBER, description: "0 (top edge) to 1 (bottom edge) of the image." },
+  },
+  required: ['x', 'y'],
+};
+
+const landmarksSchema = {
+  type: Type.OBJECT,
+  properties: {
+    leftPupil: { ...pointSchema, description: "Center of the pupil on the left side of the image." },
+    rightPupil: { ...pointSchema, description: "Center of the pupil on the right side of the image." },
+    faceLeft: { ...pointSchema, description: "Left edge of the face at eye level (temple)." },
+    faceRight: { ...pointSchema, description: "Right edge of the face at eye level (temple)." },
+    cardDetected: { type: Type.BOOLEAN, description: "Whether a credit-card-sized card is visible." },
+    cardLeft: { ...pointSchema, description: "Left end of the card's long edge, if a card is visible." },
+    cardRight: { ...pointSchema, description: "Right end of the card's long edge, if a card is visible." },
+  },
+  required: ['leftPupil', 'rightPupil', 'faceLeft', 'faceRight', 'cardDetected'],
+};
+
+const isPoint = (value: unknown): value is Point =>
+  typeof (value as Point)?.x === 'number' && typeof (value as Point)?.y === 'number' &&
+  [(value as Point).x, (value as Point).y].every(n => n >= 0 && n <= 1);
+
+/**
+ * Locates the pupils, face edges and (if present) a reference card in the user's photo.
+ * Anything the model misses falls back to a placeholder handle the user can drag.
+ */
+export const detectLandmarks = async (userImageBase64: string, { signal }: RequestOptions = {}): Promise<FaceLandmarks> => {
+  try {
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'detect-landmarks',
+      contents: [{
+        role: 'user',
+        parts: [
+          fileToGenerativePart(userImageBase64, 'image/jpeg'),
+          { text: "Locate these landmarks for a pupillary distance measurement." }
+        ]
+      }],
+      systemInstruction: "You locate facial landmarks for optical measurements. Give normalized image coordinates. Left and right refer to the image, not the person. Only report a card if a standard bank or ID card is actually visible.",
+      schema: landmarksSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS }) as Partial<FaceLandmarks> | null;
+
+    const pick = (key: Exclude<keyof FaceLandmarks, 'cardDetected'>) => (isPoint(raw?.[key]) ? raw![key] as Point : DEFAULT_LANDMARKS[key]);
+    const cardDetected = Boolean(raw?.cardDetected) && isPoint(raw?.cardLeft) && isPoint(raw?.cardRight);
+
+    return {
+      leftPupil: pick('leftPupil'),
+      rightPupil: pick('rightPupil'),
+      faceLeft: pick('faceLeft'),
+      faceRight: pick('faceRight'),
+      cardLeft: cardDetected ? raw!.cardLeft! : DEFAULT_LANDMARKS.cardLeft,
+      cardRight: cardDetected ? raw!.cardRight! : DEFAULT_LANDMARKS.cardRight,
+      cardDetected
+    };
 
-    // Use Google Search Grounding for shopping links
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts },
-      config: {
-        tools: [{ googleSearch: {} }], // Enable Search Grounding
-        systemInstruction: "You are an expert optical stylist and optometrist assistant. You help users find the perfect glasses. When asked to find similar products or shop, analyze the visual details of the eyewear in the image provided (frame shape, rim thickness, color, material) and use Google Search to find real, purchasable products that are very similar. Provide direct shopping links. Be concise, helpful, and fashion-forward.",
+  } catch (error) {
+    console.error("Error detecting landmarks:", error);
+    throw toGenerationError(error);
+  }
+};
+
+// --- Face Detection (Group Photos) ---
+
+// More faces than this and the boxes get too small to pick, and edits too unreliable to target
+export const MAX_FACES = 6;
+
+const faceListSchema = {
+  type: Type.OBJECT,
+  properties: {
+    faces: {
+      type: Type.ARRAY,
+      description: "Every clearly visible human face.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          x: { type: Type.NUMBER, description: "Left edge of the face box, 0 to 1." },
+          y: { type: Type.NUMBER, description: "Top edge of the face box, 0 to 1." },
+          width: { type: Type.NUMBER, description: "Width of the face box, 0 to 1." },
+          height: { type: Type.NUMBER, description: "Height of the face box, 0 to 1." },
+        },
+        required: ['x', 'y', 'width', 'height'],
       },
+    },
+  },
+  required: ['faces'],
+};
+
+/**
+ * Finds the faces in the user's photo, numbered left to right. A failed detection
+ * returns no faces, which the app treats like a single-person photo.
+ */
+export const detectFaces = async (userImageBase64: string, { signal }: RequestOptions = {}): Promise<DetectedFace[]> => {
+  try {
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'detect-faces',
+      contents: [{
+        role: 'user',
+        parts: [
+          fileToGenerativePart(userImageBase64, 'image/jpeg'),
+          { text: "Find every face in this photo." }
+        ]
+      }],
+      systemInstruction: "You detect faces in photos for a virtual eyewear try-on. Give one tight box per visible face, from forehead to chin, as fractions of the image size. Ignore faces on screens, posters or printed matter.",
+      schema: faceListSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS }) as { faces?: Array<Partial<DetectedFace['box']>> } | null;
+
+    const clamp = (n: number) => Math.min(1, Math.max(0, n));
+    return (raw?.faces ?? [])
+      .filter((box): box is DetectedFace['box'] =>
+        [box.x, box.y, box.width, box.height].every(n => typeof n === 'number') && box.width! > 0 && box.height! > 0)
+      .map(box => ({ x: clamp(box.x), y: clamp(box.y), width: clamp(box.width), height: clamp(box.height) }))
+      .sort((a, b) => (a.x + a.width / 2) - (b.x + b.width / 2))
+      .slice(0, MAX_FACES)
+      .map((box, i) => ({ id: `face-${i + 1}`, box }));
+
+  } catch (error) {
+    if (error instanceof CancelledError) throw error;
+    console.error("Error detecting faces:", error);
+    return [];
+  }
+};
+
+// --- Head Pose (360° Try-On) ---
+
+const headPoseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    yaws: {
+      type: Type.ARRAY,
+      description: "One head yaw per image, in the order given.",
+      items: { type: Type.NUMBER, description: "Degrees from -90 (face turned toward the image's left edge) through 0 (facing the camera) to 90 (toward the right edge)." },
+    },
+  },
+  required: ['yaws'],
+};
+
+/**
+ * Estimates how far the head is turned in each frame of a head-turn clip. Entries the
+ * model leaves out or garbles come back as null.
+ */
+export const estimateHeadYaw = async (frameBase64s: string[], { signal }: RequestOptions = {}): Promise<Array<number | null>> => {
+  try {
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'estimate-head-pose',
+      contents: [{
+        role: 'user',
+        parts: [
+          ...frameBase64s.map(base64 => fileToGenerativePart(base64, 'image/jpeg')),
+          { text: `Estimate the head yaw in each of these ${frameBase64s.length} frames.` }
+        ]
+      }],
+      systemInstruction: "You estimate head pose for a virtual eyewear try-on. Left and right refer to the image, not the person. Judge from the nose and the visible ear, not from the eyes.",
+      schema: headPoseSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS }) as { yaws?: unknown[] } | null;
+
+    return frameBase64s.map((_, i) => {
+      const yaw = raw?.yaws?.[i];
+      return typeof yaw === 'number' && Math.abs(yaw) <= 180 ? Math.max(-90, Math.min(90, yaw)) : null;
     });
 
-    const text = response.text || "I couldn't generate a text response.";
-    
-    // Extract Grounding URLs
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const groundingUrls = groundingChunks
-      .filter((chunk: any) => chunk.web?.uri && chunk.web?.title)
-      .map((chunk: any) => ({
-        title: chunk.web.title,
-        uri: chunk.web.uri
-      }));
+  } catch (error) {
+    console.error("Error estimating head pose:", error);
+    throw toGenerationError(error);
+  }
+};
 
-    return { text, groundingUrls };
+// --- Intent Classification ---
+
+const INTENT_TYPES: IntentType[] = ['EDIT', 'SHOP', 'ADVICE', 'COMPARE', 'UNDO', 'REDO'];
+
+const intentSchema = {
+  type: Type.OBJECT,
+  properties: {
+    intent: {
+      type: Type.STRING,
+      enum: INTENT_TYPES,
+      description: "EDIT: change the glasses in the photo. SHOP: find products, prices or links. ADVICE: opinions or questions that need no image change. COMPARE: weigh the current look against another. UNDO: go back to a previous look or reverse the last change. REDO: bring back a change that was just undone."
+    },
+    color: { type: Type.STRING, description: "Frame or lens color requested, if any." },
+    shape: { type: Type.STRING, description: "Frame shape requested (e.g. round, aviator, cat-eye), if any." },
+    material: { type: Type.STRING, description: "Frame material requested (e.g. metal, acetate), if any." },
+  },
+  required: ['intent'],
+};
 
+/**
+ * Classifies a chat message with a structured model call so routing doesn't depend on
+ * stray words ("red wine", "find me something thinner"). Falls back to keyword matching
+ * when the model is unavailable (offline mock, network errors) or returns something unusable.
+ */
+export const classifyIntent = async (message: string, { signal }: RequestOptions = {}): Promise<IntentResult> => {
+  try {
+    // No retries: a slow classifier shouldn't hold up the reply when keywords will do
+    const raw = await withRetry(attemptSignal => getProvider().generateStructured({
+      task: 'classify-intent',
+      contents: [{ role: 'user', parts: [{ text: message }] }],
+      systemInstruction: "You route messages sent to a virtual eyewear try-on assistant. The user is looking at a photo of themselves wearing glasses. Classify the message and extract any requested frame attributes. Only use EDIT when the user wants the glasses in the photo to change.",
+      schema: intentSchema,
+      signal: attemptSignal,
+    }), { signal, timeoutMs: STRUCTURED_TIMEOUT_MS, retries: 0 }) as { intent?: string; color?: string; shape?: string; material?: string } | null;
+
+    if (!raw || !INTENT_TYPES.includes(raw.intent as IntentType)) {
+      throw new Error(`Unexpected intent classification: ${JSON.stringify(raw)}`);
+    }
+
+    const attributes: IntentAttributes = {};
+    if (raw.color) attributes.color = raw.color;
+    if (raw.shape) attributes.shape = raw.shape;
+    if (raw.material) attributes.material = raw.material;
+
+    return { intent: raw.intent as IntentType, attributes, source: 'model' };
   } catch (error) {
-    console.error("Error in stylist chat:", error);
-    throw error;
+    if (error instanceof CancelledError) throw error;
+    console.warn("Intent classification unavailable, using keyword fallback:", error);
+    return detectIntent(message);
   }
 };
 
 /**
- * Simple intent detection to decide if we should generate an image or just chat.
+ * Spells out the frame attributes the classifier pulled from a message, so the edit model
+ * and the shopping search get them explicitly instead of having to re-read the chat text.
+ * Returns the request unchanged when there are none.
+ */
+export const withFrameAttributes = (request: string, { color, shape, material }: IntentAttributes): string => {
+  const details = [shape && `shape: ${shape}`, color && `color: ${color}`, material && `material: ${material}`].filter(Boolean);
+  return details.length ? `${request.trim()} (requested frame ${details.join(', ')})` : request;
+};
+
+const COLOR_KEYWORDS = ['gold', 'silver', 'black', 'white', 'blue', 'red', 'green', 'brown', 'pink', 'purple', 'tortoise', 'transparent', 'clear'];
+const SHAPE_KEYWORDS = ['aviator', 'wayfarer', 'cat-eye', 'cat eye', 'round', 'square', 'rectangular', 'oval', 'geometric', 'rimless', 'browline'];
+const MATERIAL_KEYWORDS = ['metal', 'plastic', 'acetate', 'titanium', 'wood', 'steel'];
+
+const findKeyword = (text: string, keywords: string[]) =>
+  keywords.find(k => new RegExp(`\\b${k}\\b`).test(text));
+
+/**
+ * Keyword-based intent detection, used offline or when the classifier fails.
  * This saves tokens and improves UX by routing to the correct model.
  */
-export const detectIntent = (message: string): 'EDIT_IMAGE' | 'CHAT' => {
+export const detectIntent = (message: string): IntentResult => {
   const visualKeywords = [
     'change', 'make', 'add', 'remove', 'wear', 'try', 'color', 'style', 'shape', 
     'rim', 'lens', 'thinner', 'thicker', 'bigger', 'smaller', 'metal', 'plastic',
@@ -140,17 +915,38 @@ export const detectIntent = (message: string): 'EDIT_IMAGE' | 'CHAT' => {
   ];
   
   const lowerMsg = message.toLowerCase();
+
+  const attributes: IntentAttributes = {};
+  const color = findKeyword(lowerMsg, COLOR_KEYWORDS);
+  const shape = findKeyword(lowerMsg, SHAPE_KEYWORDS);
+  const material = findKeyword(lowerMsg, MATERIAL_KEYWORDS);
+  if (color) attributes.color = color;
+  if (shape) attributes.shape = shape;
+  if (material) attributes.material = material;
+
+  const result = (intent: IntentType): IntentResult => ({ intent, attributes, source: 'keywords' });
+
+  if (/\b(undo|revert|go back|previous look)\b/.test(lowerMsg)) {
+    return result('UNDO');
+  }
+
+  if (/\b(redo|go forward)\b/.test(lowerMsg)) {
+    return result('REDO');
+  }
+
+  if (/\b(compare|versus|vs\.?|side by side|which is better)\b/.test(lowerMsg)) {
+    return result('COMPARE');
+  }
   
-  // If asking for links/buy/where, it's definitely chat
-  // Added 'shop', 'find', 'similar' to ensure shopping queries go to Gemini 3 Pro
-  if (lowerMsg.includes('buy') || lowerMsg.includes('link') || lowerMsg.includes('where') || lowerMsg.includes('cost') || lowerMsg.includes('price') || lowerMsg.includes('brand') || lowerMsg.includes('shop') || lowerMsg.includes('find') || lowerMsg.includes('similar')) {
-    return 'CHAT';
+  // If asking for links/buy/where, it's definitely shopping
+  if (['buy', 'link', 'where', 'cost', 'price', 'brand', 'shop', 'find', 'similar'].some(k => lowerMsg.includes(k))) {
+    return result('SHOP');
   }
 
   // If strictly visual modifications
   if (visualKeywords.some(k => lowerMsg.includes(k))) {
-    return 'EDIT_IMAGE';
+    return result('EDIT');
   }
 
-  return 'CHAT';
-};
\ No newline at end of file
+  return result('ADVICE');
+};
@@ -0,0 +1,56 @@
+import { DetectedFace, FaceStyleAssignment } from "../types";
+
+// --- Group photos: aim each style at one person and leave everyone else alone ---
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth'];
+
+export const getFaceNumber = (faces: DetectedFace[], faceId: string) =>
+  faces.findIndex(f => f.id === faceId) + 1;
+
+/**
+ * Describes where a face is in words the image model can act on: its position counting
+ * from the left plus the center of its box, since "the second person" alone is ambiguous
+ * when people stand at different depths.
+ */
+export const describeFacePosition = (faces: DetectedFace[], faceId: string): string => {
+  const index = faces.findIndex(f => f.id === faceId);
+  const face = faces[index];
+  if (!face) return 'the person in the photo';
+
+  const centerX = Math.round((face.box.x + face.box.width / 2) * 100);
+  const centerY = Math.round((face.box.y + face.box.height / 2) * 100);
+  const ordinal = ORDINALS[index] ?? `number ${index + 1}`;
+  return `the ${ordinal} person from the left of ${faces.length} (face centered about ${centerX}% across and ${centerY}% down the image)`;
+};
+
+const KEEP_OTHERS = "Leave every other person, including any glasses they already wear, exactly as they are";
+
+/**
+ * Prompt for one targeted edit in a sequential group try-on.
+ */
+export const buildFaceTargetedPrompt = (faces: DetectedFace[], assignment: FaceStyleAssignment) =>
+  `apply this change only to ${describeFacePosition(faces, assignment.faceId)}: ${assignment.prompt}. ${KEEP_OTHERS}`;
+
+/**
+ * Prompt that styles every assigned face in a single edit.
+ */
+export const buildGroupPrompt = (faces: DetectedFace[], assignments: FaceStyleAssignment[]) => {
+  if (assignments.length === 1) return buildFaceTargetedPrompt(faces, assignments[0]);
+
+  // Matching styles read better as one change for several people
+  if (assignments.every(a => a.prompt === assignments[0].prompt)) {
+    const people = assignments.map(a => describeFacePosition(faces, a.faceId)).join(' and ');
+    return `apply this change only to ${people}: ${assignments[0].prompt}. ${KEEP_OTHERS}`;
+  }
+
+  const perFace = assignments
+    .map(a => `for ${describeFacePosition(faces, a.faceId)}, ${a.prompt}`)
+    .join('; ');
+  return `style several people at once, each differently: ${perFace}. Keep each style on its own person. ${KEEP_OTHERS}`;
+};
+
+/**
+ * Short version title for the timeline, e.g. "Person 1: red frames · Person 3: aviators".
+ */
+export const summarizeAssignments = (assignments: FaceStyleAssignment[], labelFace: (faceId: string) => string) =>
+  assignments.map(a => `${labelFace(a.faceId)}: ${a.prompt}`).join(' · ');
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import en from '../locales/en.json';
+import fa from '../locales/fa.json';
+import ar from '../locales/ar.json';
+import { detectCountry, detectLocale, formatCurrency, getStylistLocale, translate, translatePlural } from './i18n';
+
+const placeholders = (message: string) => Array.from(message.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+
+// A plural form like 'batch.generate_few' only exists in some languages; it answers to the _other key
+const toEnglishKey = (key: string) => key.replace(/_(zero|one|two|few|many|other)$/, '_other');
+
+describe('locale catalogs', () => {
+  it.each([['fa', fa], ['ar', ar]] as const)('%s translates every English message', (_, catalog) => {
+    const reference: Record<string, string> = en;
+    const messages: Record<string, string> = catalog;
+    expect(Object.keys(reference).filter(key => !(key in messages))).toEqual([]);
+
+    Object.entries(messages).forEach(([key, message]) => {
+      const source = reference[key] ?? reference[toEnglishKey(key)];
+      expect(source, `${key} is not an English key`).toBeDefined();
+      // A translation may leave a variable out (Arabic spells out "one"), but never invent one
+      placeholders(message).forEach(name => expect(placeholders(source), `${key} uses {{${name}}}`).toContain(name));
+    });
+  });
+});
+
+describe('translate', () => {
+  it('fills in variables, writing numbers with the locale\'s digits', () => {
+    expect(translate('en', 'progress.fixingDrift', { attempt: 2, total: 3 })).toBe('Fixing drift from your photo (attempt 2 of 3)...');
+    expect(translate('fa', 'progress.fixingDrift', { attempt: 2, total: 3 })).toContain('تلاش ۲ از ۳');
+  });
+
+  it('leaves a placeholder without a value in place', () => {
+    expect(translate('en', 'history.redone')).toBe('Redone: {{label}}.');
+  });
+
+  it('picks plural forms by the locale\'s rules', () => {
+    expect(translatePlural('en', 'batch.generate', 1)).toBe('Generate 1 look side by side');
+    expect(translatePlural('en', 'batch.generate', 3)).toBe('Generate 3 looks side by side');
+    expect(translatePlural('ar', 'batch.generate', 2)).toBe('إنشاء إطلالتين جنبًا إلى جنب');
+    // 3 to 10 take the "few" form; the digits depend on the ICU data, so only the wording is checked
+    expect(translatePlural('ar', 'batch.generate', 3)).toMatch(/^إنشاء \S+ إطلالات /);
+  });
+});
+
+describe('formatCurrency', () => {
+  it('formats prices the way the locale writes them', () => {
+    expect(formatCurrency('en', 120, 'USD', { maximumFractionDigits: 0 })).toBe('$120');
+    expect(formatCurrency('fa', 120, 'USD', { maximumFractionDigits: 0 })).toContain('۱۲۰');
+  });
+
+  it('falls back to the code for a currency Intl doesn\'t know', () => {
+    expect(formatCurrency('en', 5, 'NOT-A-CODE')).toBe('5 NOT-A-CODE');
+  });
+});
+
+describe('locale detection', () => {
+  it('takes the first supported browser language', () => {
+    expect(detectLocale(['de-DE', 'fa-IR', 'en'])).toBe('fa');
+    expect(detectLocale(['de-DE'])).toBe('en');
+  });
+
+  it('takes the shopping country from the browser, else the locale\'s usual one', () => {
+    expect(detectCountry(['en-GB', 'fa-IR'], 'fa')).toBe('GB');
+    expect(detectCountry(['fa'], 'fa')).toBe('IR');
+  });
+
+  it('names the language and country in English for the stylist', () => {
+    expect(getStylistLocale('fa', 'IR')).toEqual({ language: 'Persian', country: 'Iran (IR)' });
+    expect(getStylistLocale('ar', 'AE')).toEqual({ language: 'Arabic', country: 'United Arab Emirates (AE)' });
+  });
+});
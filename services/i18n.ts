@@ -0,0 +1,168 @@
+import en from "../locales/en.json";
+import fa from "../locales/fa.json";
+import ar from "../locales/ar.json";
+import { Locale, StylistLocale } from "../types";
+
+// --- Internationalization ---
+// UI strings live in locales/<code>.json as flat keys with {{variable}} placeholders, like the
+// prompt templates. en.json is the reference: a key missing from another catalog falls back to it.
+// Plurals are `<key>_one`, `<key>_other` and any other Intl.PluralRules category a language needs
+// (Arabic also has _zero, _two, _few and _many).
+
+export type MessageKey = keyof typeof en;
+
+type PluralBase<K> = K extends `${infer Base}_other` ? Base : never;
+
+// Base keys of plural messages, e.g. 'batch.generate' for 'batch.generate_other'
+export type PluralKey = PluralBase<MessageKey>;
+
+export type MessageVariables = Record<string, string | number>;
+
+// A message for the UI to translate, for code that runs outside React (services, errors)
+export interface LocalizedMessage {
+  key: MessageKey;
+  variables?: MessageVariables;
+}
+
+export interface LocaleInfo {
+  code: Locale;
+  name: string; // In the language itself, for the picker
+  englishName: string; // For the stylist prompt, which is written in English
+  dir: 'ltr' | 'rtl';
+  defaultCountry: string; // ISO 3166 region when the browser doesn't say
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: 'en', name: 'English', englishName: 'English', dir: 'ltr', defaultCountry: 'US' },
+  { code: 'fa', name: 'فارسی', englishName: 'Persian', dir: 'rtl', defaultCountry: 'IR' },
+  { code: 'ar', name: 'العربية', englishName: 'Arabic', dir: 'rtl', defaultCountry: 'SA' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const DEFAULT_STYLIST_LOCALE: StylistLocale = { language: 'English', country: 'United States (US)' };
+
+const CATALOGS: Record<Locale, Record<string, string>> = { en, fa, ar };
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const STORAGE_KEY = 'visionary-ai:locale';
+
+export const getLocaleInfo = (locale: Locale): LocaleInfo =>
+  LOCALES.find(info => info.code === locale) ?? LOCALES[0];
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(info => info.code === value);
+
+/**
+ * Picks the first supported language from the browser's preferences, e.g. 'fa' for 'fa-IR'.
+ */
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const tag of languages) {
+    const language = tag.split('-')[0].toLowerCase();
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/**
+ * The shopping country: the region of the first browser language that has one
+ * (e.g. 'DE' for 'en-DE'), else the usual country for the locale.
+ */
+export const detectCountry = (languages: readonly string[], locale: Locale): string => {
+  for (const tag of languages) {
+    try {
+      const region = new Intl.Locale(tag).region;
+      if (region && /^[A-Z]{2}$/.test(region)) return region;
+    } catch {
+      // Not a valid tag; try the next one
+    }
+  }
+  return getLocaleInfo(locale).defaultCountry;
+};
+
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage blocked; fall through to the browser's preference
+  }
+  return detectLocale(typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language]);
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.warn("Could not save the language:", error);
+  }
+};
+
+export const formatNumber = (locale: Locale, value: number) => new Intl.NumberFormat(locale).format(value);
+
+/**
+ * Looks up a message and fills in its placeholders. Numbers are written with the locale's
+ * digits; a placeholder without a value is left as is, so a missing variable shows up in the UI.
+ */
+export const translate = (locale: Locale, key: MessageKey, variables: MessageVariables = {}): string => {
+  const template = CATALOGS[locale][key] ?? CATALOGS.en[key] ?? key;
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = variables[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
+
+/**
+ * Translates a value that comes from data, such as a frame shape, from the `group` messages
+ * ('shape.cat-eye' for group 'shape'). A value the catalogs don't know is shown as it is.
+ */
+export const translateTerm = (locale: Locale, group: string, value: string): string => {
+  const key = `${group}.${value}`;
+  return key in CATALOGS.en ? translate(locale, key as MessageKey) : value.replace(/-/g, ' ');
+};
+
+/**
+ * Picks the plural form of `key` for `count` and fills it in; `count` is also available to
+ * the message as {{count}}.
+ */
+export const translatePlural = (locale: Locale, key: PluralKey, count: number, variables: MessageVariables = {}): string => {
+  const category = new Intl.PluralRules(locale).select(count);
+  const form = `${key}_${category}`;
+  const chosen = (form in CATALOGS[locale] || form in CATALOGS.en ? form : `${key}_other`) as MessageKey;
+  return translate(locale, chosen, { count, ...variables });
+};
+
+/**
+ * Formats a price in `currency` the way the locale writes it, e.g. "$120" or "۱۲۰ US$".
+ */
+export const formatCurrency = (
+  locale: Locale,
+  amount: number,
+  currency: string,
+  { maximumFractionDigits }: { maximumFractionDigits?: number } = {}
+): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits }).format(amount);
+  } catch {
+    // Unknown currency code from a retailer; show it next to the number instead
+    return `${formatNumber(locale, amount)} ${currency}`;
+  }
+};
+
+/**
+ * What the stylist prompt needs: the reply language and the shopping country, both in English,
+ * e.g. { language: 'Persian', country: 'Iran (IR)' }.
+ */
+export const getStylistLocale = (locale: Locale, country: string): StylistLocale => {
+  let countryName: string | undefined;
+  try {
+    countryName = new Intl.DisplayNames(['en'], { type: 'region' }).of(country);
+  } catch {
+    // Unknown region code; the code alone still tells the model where to look
+  }
+  return {
+    language: getLocaleInfo(locale).englishName,
+    country: countryName && countryName !== country ? `${countryName} (${country})` : country
+  };
+};
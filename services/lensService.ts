@@ -0,0 +1,115 @@
+import { LensIndex, LensOptions, LensThickness, Prescription } from "../types";
+
+// --- Lens simulation: tints, coatings, and thickness by prescription ---
+
+export const LENS_INDICES: LensIndex[] = [1.5, 1.6, 1.67, 1.74];
+
+export const TINT_COLORS = [
+  { id: 'gray', name: 'Gray', hex: '#4b5563' },
+  { id: 'brown', name: 'Brown', hex: '#7c4a2d' },
+  { id: 'green', name: 'G-15 Green', hex: '#3f5e3a' },
+  { id: 'blue', name: 'Blue', hex: '#1e40af' },
+  { id: 'rose', name: 'Rose', hex: '#e11d48' },
+  { id: 'yellow', name: 'Yellow', hex: '#eab308' },
+];
+
+export const DEFAULT_LENS_OPTIONS: LensOptions = {
+  tintId: null,
+  tintDensity: 50,
+  coating: 'none',
+  finish: 'anti-reflective',
+  blueLightFilter: false,
+  photochromic: false,
+  lightCondition: 'outdoor',
+  prescription: { sph: 0, cyl: 0 },
+  index: 1.5,
+};
+
+// Used when the look isn't wearing a catalog frame we know the size of
+export const DEFAULT_LENS_WIDTH_MM = 52;
+
+// Typical accepted prescription ranges, in 0.25 D steps
+export const SPH_RANGE = { min: -20, max: 12 };
+export const CYL_RANGE = { min: -6, max: 6 };
+
+// Minimum thickness a lab will surface each material to (mm)
+const MIN_CENTER_MM: Record<LensIndex, number> = { 1.5: 2.0, 1.6: 1.5, 1.67: 1.4, 1.74: 1.3 };
+const MIN_EDGE_MM = 1.0;
+
+// Lenses are cut a little wider than the frame's lens width to allow for decentration
+const DECENTRATION_ALLOWANCE_MM = 2;
+
+/**
+ * Sagitta of a surface with the given power over a semi-diameter, in mm.
+ */
+const sag = (power: number, semiDiameterMm: number, index: LensIndex) => {
+  if (power === 0) return 0;
+  const radiusMm = ((index - 1) * 1000) / Math.abs(power);
+  if (semiDiameterMm >= radiusMm) return radiusMm;
+  return radiusMm - Math.sqrt(radiusMm ** 2 - semiDiameterMm ** 2);
+};
+
+/**
+ * Estimates center and thickest-edge thickness using the thin-lens sag approximation.
+ * Cylinder is handled by taking the strongest plus and minus meridians (sph and sph + cyl).
+ */
+export const estimateLensThickness = (prescription: Prescription, index: LensIndex, lensWidthMm: number): LensThickness => {
+  const semiDiameter = lensWidthMm / 2 + DECENTRATION_ALLOWANCE_MM;
+  const meridians = [prescription.sph, prescription.sph + prescription.cyl];
+  const strongestPlus = Math.max(0, ...meridians);
+  const strongestMinus = Math.min(0, ...meridians);
+
+  const plusSag = sag(strongestPlus, semiDiameter, index);
+  const minusSag = sag(strongestMinus, semiDiameter, index);
+
+  // Plus power thickens the center until the thinnest edge reaches the minimum
+  const centerMm = Math.max(MIN_CENTER_MM[index], MIN_EDGE_MM + plusSag);
+  const edgeMm = strongestMinus < 0 ? centerMm + minusSag : centerMm - plusSag;
+
+  return { centerMm: Math.round(centerMm * 10) / 10, edgeMm: Math.round(edgeMm * 10) / 10 };
+};
+
+export const formatDiopters = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const describeTint = (options: LensOptions) => {
+  const tint = TINT_COLORS.find(t => t.id === options.tintId);
+
+  if (options.photochromic) {
+    const color = tint ?? TINT_COLORS[0];
+    return options.lightCondition === 'outdoor'
+      ? `photochromic lenses fully darkened in sunlight to a ${options.tintDensity}% ${color.name.toLowerCase()} (${color.hex}) tint`
+      : `photochromic lenses in their indoor state: almost clear, with only a faint ${color.name.toLowerCase()} cast`;
+  }
+  if (!tint) return 'clear, untinted lenses';
+
+  const tintText = `${options.tintDensity}% density ${tint.name.toLowerCase()} (${tint.hex}) tint`;
+  return options.coating === 'gradient'
+    ? `gradient lenses: ${tintText} at the top fading to clear at the bottom`
+    : `evenly tinted lenses: ${tintText}`;
+};
+
+/**
+ * Composes the lens settings and estimated thickness into an edit prompt that changes only
+ * the lenses of the glasses already in the photo.
+ */
+export const buildLensPrompt = (options: LensOptions, thickness: LensThickness) => {
+  const { sph, cyl } = options.prescription;
+  const details = [
+    describeTint(options),
+    options.coating === 'mirror' ? 'a reflective mirror coating on the front surface' : null,
+    options.finish === 'anti-reflective'
+      ? 'anti-reflective coating, so the eyes are clearly visible with almost no reflections'
+      : 'glossy uncoated finish with visible reflections of the surroundings',
+    options.blueLightFilter ? 'a blue-light filter giving a subtle blue-violet sheen on reflections' : null,
+  ].filter(Boolean);
+
+  const strongest = Math.abs(sph) >= Math.abs(sph + cyl) ? sph : sph + cyl;
+  let rxText = `Lens thickness: about ${thickness.edgeMm}mm at the thickest edge and ${thickness.centerMm}mm at the center (${options.index} index material).`;
+  if (strongest <= -4) {
+    rxText += ' The thick edges are visible from the side, and the eyes appear slightly smaller behind the lenses.';
+  } else if (strongest >= 3) {
+    rxText += ' The lenses bulge slightly at the center, and the eyes appear slightly magnified.';
+  }
+
+  return `replace only the lenses of the glasses being worn, keeping the frames, face and background exactly the same. New lenses: ${details.join('; ')}. Prescription SPH ${formatDiopters(sph)} CYL ${formatDiopters(cyl)}. ${rxText}`;
+};
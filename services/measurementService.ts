@@ -0,0 +1,79 @@
+import { CatalogFrame, FaceLandmarks, FaceMeasurement, FrameFit, Point, SizeRange } from "../types";
+
+// --- Measurement: PD, face width and frame size guidance from one photo ---
+
+// ISO/IEC 7810 ID-1 (credit card, driver's license) long edge
+export const CARD_WIDTH_MM = 85.6;
+
+// Hinges and end pieces add to a frame's width beyond its two lenses and bridge
+const END_PIECES_MM = 14;
+
+// How far a frame's total width may differ from face width before it looks off
+const TARGET_WIDTH_TOLERANCE_MM = 4;
+const FIT_WARNING_TOLERANCE_MM = 6;
+
+/**
+ * Placeholder handles for when nothing could be detected: a centered face with the card
+ * held flat against the forehead.
+ */
+export const DEFAULT_LANDMARKS: FaceLandmarks = {
+  leftPupil: { x: 0.4, y: 0.45 },
+  rightPupil: { x: 0.6, y: 0.45 },
+  faceLeft: { x: 0.27, y: 0.45 },
+  faceRight: { x: 0.73, y: 0.45 },
+  cardLeft: { x: 0.36, y: 0.25 },
+  cardRight: { x: 0.64, y: 0.25 },
+  cardDetected: false,
+};
+
+const distancePx = (a: Point, b: Point, imageWidth: number, imageHeight: number) =>
+  Math.hypot((b.x - a.x) * imageWidth, (b.y - a.y) * imageHeight);
+
+const roundRange = (min: number, max: number): SizeRange => ({ min: Math.floor(min), max: Math.ceil(max) });
+
+/**
+ * Turns PD and face width into recommended frame sizes. Bridge width really depends on the
+ * nose, so it is estimated from PD as a starting point; temple length follows head width.
+ */
+export const recommendFrameSizes = (pdMm: number, faceWidthMm: number) => {
+  const bridgeCenter = Math.round(pdMm * 0.28);
+  const bridgeMm = { min: bridgeCenter - 1, max: bridgeCenter + 1 };
+
+  const lensWidthMm = roundRange(
+    (faceWidthMm - TARGET_WIDTH_TOLERANCE_MM - bridgeMm.max - END_PIECES_MM) / 2,
+    (faceWidthMm + TARGET_WIDTH_TOLERANCE_MM - bridgeMm.min - END_PIECES_MM) / 2
+  );
+
+  const templeLengthMm = faceWidthMm < 130
+    ? { min: 135, max: 140 }
+    : faceWidthMm < 145 ? { min: 140, max: 145 } : { min: 145, max: 150 };
+
+  return { lensWidthMm, bridgeMm, templeLengthMm };
+};
+
+/**
+ * Measures the face using the reference card for scale. Returns null if the card handles
+ * are too close together to give a usable scale.
+ */
+export const measureFace = (landmarks: FaceLandmarks, imageWidth: number, imageHeight: number): FaceMeasurement | null => {
+  const cardPx = distancePx(landmarks.cardLeft, landmarks.cardRight, imageWidth, imageHeight);
+  if (cardPx < 10) return null;
+
+  const mmPerPx = CARD_WIDTH_MM / cardPx;
+  const pdMm = Math.round(distancePx(landmarks.leftPupil, landmarks.rightPupil, imageWidth, imageHeight) * mmPerPx * 10) / 10;
+  const faceWidthMm = Math.round(distancePx(landmarks.faceLeft, landmarks.faceRight, imageWidth, imageHeight) * mmPerPx);
+
+  return { pdMm, faceWidthMm, ...recommendFrameSizes(pdMm, faceWidthMm), landmarks };
+};
+
+export const getFrameTotalWidthMm = (frame: CatalogFrame) => frame.lensWidthMm * 2 + frame.bridgeMm + END_PIECES_MM;
+
+/**
+ * Flags frames whose total width is clearly narrower or wider than the measured face.
+ */
+export const getFrameFit = (frame: CatalogFrame, measurement: FaceMeasurement): FrameFit => {
+  const difference = getFrameTotalWidthMm(frame) - measurement.faceWidthMm;
+  if (difference < -FIT_WARNING_TOLERANCE_MM) return 'too-narrow';
+  if (difference > FIT_WARNING_TOLERANCE_MM) return 'too-wide';
+  return 'good';
+};
@@ -0,0 +1,139 @@
+import { AIProvider, ProviderPart } from "./providers";
+import { getLatestVersion, getPromptDefinition, renderPrompt, PromptName } from "./promptRegistry";
+import { DEFAULT_STYLIST_LOCALE } from "./i18n";
+
+// --- Prompt evaluation: render templates against fixtures and record what the model does ---
+// Runs anywhere the providers do; scripts/evalPrompts.ts is the command-line entry point.
+
+export interface PromptFixture {
+  id: string;
+  variables: Record<string, string | number>;
+  message?: string; // User turn sent along with a system instruction
+  images?: string[]; // Raw base64 JPEGs: the base photo first, then any references
+}
+
+export interface PromptFixtureSet {
+  template: string;
+  fixtures: PromptFixture[];
+}
+
+export interface PromptEvalRecord {
+  template: string;
+  version: number;
+  model: string;
+  fixture: string;
+  rendered: string;
+  outputKind: 'text' | 'image' | null;
+  output: string | null; // Model text, or the returned image as raw base64
+  error: string | null;
+  durationMs: number;
+}
+
+export interface PromptEvalOptions {
+  provider: AIProvider;
+  allVersions?: boolean; // Every version side by side instead of only the latest
+  placeholderImage?: string; // Stands in for fixtures without images (fine for the mock, not a real model)
+  signal?: AbortSignal;
+}
+
+export const getRecordKey = (record: Pick<PromptEvalRecord, 'template' | 'version' | 'model' | 'fixture'>) =>
+  `${record.template}@v${record.version}/${record.model}/${record.fixture}`;
+
+const imageParts = (images: string[]): ProviderPart[] =>
+  images.map(data => ({ inlineData: { data, mimeType: 'image/jpeg' } }));
+
+/**
+ * Sends one rendered prompt to the provider the way the app would for that kind of prompt.
+ */
+const runRendered = async (
+  kind: string,
+  rendered: string,
+  fixture: PromptFixture,
+  { provider, placeholderImage, signal }: PromptEvalOptions
+): Promise<{ outputKind: 'text' | 'image'; output: string }> => {
+  const images = fixture.images?.length ? fixture.images : placeholderImage ? [placeholderImage] : [];
+
+  if (kind === 'image-edit') {
+    if (images.length === 0) throw new Error("Fixture has no images to edit.");
+    const output = await provider.editImage({ parts: [...imageParts(images), { text: rendered }], signal });
+    return { outputKind: 'image', output };
+  }
+
+  // Chat messages go out under the current stylist instruction; system instructions get the fixture's message
+  const isSystem = kind === 'system-instruction';
+  const result = await provider.chat({
+    contents: [{ role: 'user', parts: [...imageParts(fixture.images ?? []), { text: isSystem ? fixture.message ?? '' : rendered }] }],
+    systemInstruction: isSystem ? rendered : renderPrompt('stylist-system', DEFAULT_STYLIST_LOCALE, { model: provider.models.chat }),
+    enableSearch: true,
+    signal,
+  });
+  return { outputKind: 'text', output: result.text };
+};
+
+/**
+ * Renders every fixture (against every version, if asked) and records the provider's
+ * output. Runs one request at a time; a failure is recorded and the run carries on.
+ */
+export const runPromptEval = async (sets: PromptFixtureSet[], options: PromptEvalOptions): Promise<PromptEvalRecord[]> => {
+  const records: PromptEvalRecord[] = [];
+
+  for (const set of sets) {
+    const definition = getPromptDefinition(set.template);
+    const model = definition.kind === 'image-edit' ? options.provider.models.image : options.provider.models.chat;
+    const versions = options.allVersions
+      ? [...definition.versions].sort((a, b) => a.version - b.version)
+      : [getLatestVersion(definition)];
+
+    for (const version of versions) {
+      for (const fixture of set.fixtures) {
+        const started = Date.now();
+        const record: PromptEvalRecord = {
+          template: definition.name, version: version.version, model, fixture: fixture.id,
+          rendered: '', outputKind: null, output: null, error: null, durationMs: 0
+        };
+
+        try {
+          record.rendered = renderPrompt(definition.name as PromptName, fixture.variables as never, { model, version: version.version });
+          Object.assign(record, await runRendered(definition.kind, record.rendered, fixture, options));
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+          record.error = error instanceof Error ? error.message : String(error);
+        }
+
+        record.durationMs = Date.now() - started;
+        records.push(record);
+      }
+    }
+  }
+
+  return records;
+};
+
+export interface PromptEvalChange {
+  key: string;
+  change: 'new' | 'removed' | 'rendered' | 'output' | 'unchanged';
+}
+
+/**
+ * Lines two runs up by template, version, model and fixture. A changed rendering wins over a
+ * changed output, since a new prompt is expected to change what comes back.
+ */
+export const compareEvalRuns = (previous: PromptEvalRecord[], current: PromptEvalRecord[]): PromptEvalChange[] => {
+  const before = new Map(previous.map(r => [getRecordKey(r), r]));
+  const after = new Map(current.map(r => [getRecordKey(r), r]));
+
+  const changes: PromptEvalChange[] = current.map(record => {
+    const key = getRecordKey(record);
+    const old = before.get(key);
+    if (!old) return { key, change: 'new' };
+    if (old.rendered !== record.rendered) return { key, change: 'rendered' };
+    if (old.output !== record.output || old.error !== record.error) return { key, change: 'output' };
+    return { key, change: 'unchanged' };
+  });
+
+  previous.forEach(record => {
+    const key = getRecordKey(record);
+    if (!after.has(key)) changes.push({ key, change: 'removed' });
+  });
+  return changes;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getPromptDefinition, listPrompts, PromptTemplateError, renderPrompt, validatePromptDefinition } from './promptRegistry';
+
+describe('prompt registry', () => {
+  it.each(listPrompts().map(definition => [definition.name, definition] as const))('%s is valid', (_, definition) => {
+    expect(validatePromptDefinition(definition)).toEqual([]);
+  });
+
+  it('fills in variables', () => {
+    expect(renderPrompt('frame-try-on-message', { frameName: 'Ray-Ban Aviator', colorName: 'Gold' }))
+      .toContain('Ray-Ban Aviator');
+  });
+
+  it('uses a model\'s variant over the default template', () => {
+    const forPro = renderPrompt('eyewear-edit-reference', { prompt: 'try these on' }, { model: 'gemini-3-pro-image-preview' });
+    const forFlash = renderPrompt('eyewear-edit-reference', { prompt: 'try these on' }, { model: 'gemini-2.5-flash-image' });
+
+    expect(forPro).toContain('Match the reference frame\'s shape');
+    expect(forFlash).toBe(renderPrompt('eyewear-edit-reference', { prompt: 'try these on' }));
+    // Earlier versions have no variant, so the model doesn't matter there
+    expect(renderPrompt('eyewear-edit-reference', { prompt: 'x' }, { model: 'gemini-3-pro-image-preview', version: 1 }))
+      .toBe(renderPrompt('eyewear-edit-reference', { prompt: 'x' }, { version: 1 }));
+  });
+
+  it('rejects missing and mistyped variables', () => {
+    expect(() => renderPrompt('eyewear-edit', {} as never)).toThrow(PromptTemplateError);
+    expect(() => renderPrompt('eyewear-edit', { prompt: 3 } as never)).toThrow(/expects "prompt" to be a string/);
+  });
+
+  it('rejects unknown prompts and versions', () => {
+    expect(() => getPromptDefinition('nope')).toThrow(PromptTemplateError);
+    expect(() => renderPrompt('eyewear-edit', { prompt: 'x' }, { version: 99 })).toThrow(/no version 99/);
+  });
+});
@@ -0,0 +1,129 @@
+import eyewearEdit from "../prompts/eyewear-edit.json";
+import eyewearEditReference from "../prompts/eyewear-edit-reference.json";
+import eyewearEditMultiView from "../prompts/eyewear-edit-multi-view.json";
+import stylistSystem from "../prompts/stylist-system.json";
+import frameTryOnMessage from "../prompts/frame-try-on-message.json";
+
+// --- Prompt registry: named, versioned templates loaded from prompts/*.json ---
+// Templates use {{variable}} placeholders. Each version may carry per-model variants that
+// replace the default template when that model is the one being called.
+
+export type PromptKind = 'image-edit' | 'system-instruction' | 'chat-message';
+
+export interface PromptVariableSpec {
+  type: 'string' | 'number';
+  description?: string;
+  optional?: boolean; // Renders as an empty string when missing
+}
+
+export interface PromptVersion {
+  version: number;
+  notes?: string; // What changed from the previous version
+  template: string;
+  variants?: Record<string, string>; // Model id -> template
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  kind: PromptKind;
+  variables: Record<string, PromptVariableSpec>;
+  versions: PromptVersion[];
+}
+
+/**
+ * Variables each prompt takes. Keep in step with the `variables` block of its file;
+ * `validatePromptDefinition` catches files that drift from what the code passes.
+ */
+export interface PromptVariables {
+  'eyewear-edit': { prompt: string };
+  'eyewear-edit-reference': { prompt: string };
+  'eyewear-edit-multi-view': { prompt: string; views: string };
+  'stylist-system': { language: string; country: string };
+  'frame-try-on-message': { frameName: string; colorName: string };
+}
+
+export type PromptName = keyof PromptVariables;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const DEFINITIONS = new Map<string, PromptDefinition>(
+  ([eyewearEdit, eyewearEditReference, eyewearEditMultiView, stylistSystem, frameTryOnMessage] as PromptDefinition[])
+    .map(definition => [definition.name, definition])
+);
+
+export const listPrompts = (): PromptDefinition[] => Array.from(DEFINITIONS.values());
+
+export const getPromptDefinition = (name: string): PromptDefinition => {
+  const definition = DEFINITIONS.get(name);
+  if (!definition) throw new PromptTemplateError(`Unknown prompt "${name}".`);
+  return definition;
+};
+
+export const getLatestVersion = (definition: PromptDefinition): PromptVersion =>
+  definition.versions.reduce((latest, v) => (v.version > latest.version ? v : latest));
+
+/**
+ * Lists problems with a definition: duplicate versions, and placeholders in any template
+ * or variant that aren't declared variables. An empty list means it's usable.
+ */
+export const validatePromptDefinition = (definition: PromptDefinition): string[] => {
+  const problems: string[] = [];
+  if (definition.versions.length === 0) problems.push(`${definition.name} has no versions.`);
+
+  const seen = new Set<number>();
+  definition.versions.forEach(v => {
+    if (seen.has(v.version)) problems.push(`${definition.name} v${v.version} is defined twice.`);
+    seen.add(v.version);
+
+    const templates = [['default', v.template], ...Object.entries(v.variants ?? {})];
+    templates.forEach(([variant, template]) => {
+      for (const [, key] of template.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!definition.variables[key]) problems.push(`${definition.name} v${v.version} (${variant}) uses undeclared {{${key}}}.`);
+      }
+    });
+  });
+  return problems;
+};
+
+/**
+ * Fills in a template. Picks the latest version unless one is given, and the variant for
+ * `model` if that version has one. Missing required variables and values of the wrong
+ * type throw, so a broken prompt file fails loudly instead of sending "undefined".
+ */
+export const renderPrompt = <N extends PromptName>(
+  name: N,
+  variables: PromptVariables[N],
+  { model, version }: { model?: string; version?: number } = {}
+): string => {
+  const definition = getPromptDefinition(name);
+  const selected = version === undefined
+    ? getLatestVersion(definition)
+    : definition.versions.find(v => v.version === version);
+  if (!selected) throw new PromptTemplateError(`Prompt "${name}" has no version ${version}.`);
+
+  const template = (model && selected.variants?.[model]) || selected.template;
+  const values = variables as Record<string, unknown>;
+
+  return template.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+    const spec = definition.variables[key];
+    if (!spec) throw new PromptTemplateError(`Prompt "${name}" v${selected.version} uses undeclared {{${key}}}.`);
+
+    const value = values[key];
+    if (value === undefined || value === null) {
+      if (spec.optional) return '';
+      throw new PromptTemplateError(`Prompt "${name}" is missing variable "${key}".`);
+    }
+    if (typeof value !== spec.type) {
+      throw new PromptTemplateError(`Prompt "${name}" expects "${key}" to be a ${spec.type}, got ${typeof value}.`);
+    }
+    return String(value);
+  });
+};
@@ -0,0 +1,130 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, GroundingMetadata, Modality } from "@google/genai";
+import { AIProvider, ChatRequest, ChatResult, ImageEditRequest, StructuredRequest } from "./types";
+import { EmptyImageError, SafetyBlockError } from "../errors";
+
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  imageModel?: string;
+  chatModel?: string;
+  structuredModel?: string;
+}
+
+export const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+export const DEFAULT_CHAT_MODEL = 'gemini-3-pro-preview';
+export const DEFAULT_STRUCTURED_MODEL = 'gemini-2.5-flash';
+
+const SAFETY_FINISH_REASONS: Array<FinishReason | undefined> = [
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+/**
+ * Throws a SafetyBlockError if the prompt or the candidate was blocked.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Response blocked: ${finishReason}`);
+  }
+};
+
+/**
+ * Gemini-backed provider.
+ * Image edits use gemini-2.5-flash-image (Nano Banana), chat uses gemini-3-pro-preview with Search Grounding,
+ * and quick structured tasks (classification) use gemini-2.5-flash with a JSON response schema.
+ */
+export const createGeminiProvider = ({
+  apiKey,
+  imageModel = DEFAULT_IMAGE_MODEL,
+  chatModel = DEFAULT_CHAT_MODEL,
+  structuredModel = DEFAULT_STRUCTURED_MODEL
+}: GeminiProviderConfig): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const editImage = async ({ parts, signal }: ImageEditRequest): Promise<string> => {
+    const response = await ai.models.generateContent({
+      model: imageModel,
+      contents: { parts },
+      config: {
+        responseModalities: [Modality.IMAGE],
+        abortSignal: signal,
+      },
+    });
+
+    assertNotBlocked(response);
+
+    // Extract the image
+    const generatedPart = response.candidates?.[0]?.content?.parts?.[0];
+    if (!generatedPart || !generatedPart.inlineData?.data) {
+      throw new EmptyImageError();
+    }
+
+    return generatedPart.inlineData.data;
+  };
+
+  const chat = async ({ contents, systemInstruction, enableSearch = false, onText, signal }: ChatRequest): Promise<ChatResult> => {
+    const stream = await ai.models.generateContentStream({
+      model: chatModel,
+      contents,
+      config: {
+        tools: enableSearch ? [{ googleSearch: {} }] : undefined,
+        systemInstruction,
+        abortSignal: signal,
+      },
+    });
+
+    let text = '';
+    let groundingMetadata: GroundingMetadata | undefined;
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (chunk.text) {
+        text += chunk.text;
+        onText?.(text);
+      }
+      // Grounding arrives with the final chunks; keep the latest
+      groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
+    }
+
+    return {
+      text,
+      groundingChunks: groundingMetadata?.groundingChunks || [],
+      groundingSupports: groundingMetadata?.groundingSupports || []
+    };
+  };
+
+  const generateStructured = async ({ contents, systemInstruction, schema, signal }: StructuredRequest): Promise<unknown> => {
+    const response = await ai.models.generateContent({
+      model: structuredModel,
+      contents,
+      config: {
+        systemInstruction,
+        responseMimeType: 'application/json',
+        responseSchema: schema,
+        abortSignal: signal,
+      },
+    });
+
+    assertNotBlocked(response);
+
+    if (!response.text) {
+      throw new Error("No structured response from the model.");
+    }
+
+    return JSON.parse(response.text);
+  };
+
+  return {
+    name: 'gemini',
+    models: { image: imageModel, chat: chatModel, structured: structuredModel },
+    editImage,
+    chat,
+    generateStructured
+  };
+};
@@ -0,0 +1,50 @@
+import { AIProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export * from "./types";
+export { createGeminiProvider } from "./geminiProvider";
+export { createMockProvider } from "./mockProvider";
+
+export type ProviderName = 'gemini' | 'mock';
+
+/**
+ * Picks the backend from configuration: AI_PROVIDER wins, otherwise Gemini when an API key is set
+ * and the offline mock when it isn't.
+ */
+export const resolveProviderName = (configured: string | undefined, apiKey: string | undefined): ProviderName => {
+  if (configured === 'gemini' || configured === 'mock') return configured;
+  return apiKey ? 'gemini' : 'mock';
+};
+
+const createConfiguredProvider = (): AIProvider => {
+  const apiKey = process.env.API_KEY;
+  const name = resolveProviderName(process.env.AI_PROVIDER, apiKey);
+
+  if (name === 'mock') {
+    return createMockProvider();
+  }
+
+  return createGeminiProvider({
+    apiKey,
+    imageModel: process.env.GEMINI_IMAGE_MODEL || undefined,
+    chatModel: process.env.GEMINI_CHAT_MODEL || undefined,
+    structuredModel: process.env.GEMINI_STRUCTURED_MODEL || undefined
+  });
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the configured backend (e.g. to inject a mock in tests).
+ */
+export const setProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,149 @@
+import { CancelledError, EmptyImageError } from "../errors";
+import { AIProvider, ChatRequest, ChatResult, GroundingChunk, GroundingSupport, ImageEditRequest, ProviderPart, StructuredRequest } from "./types";
+
+// --- Offline mock backend ---
+// Deterministic: the same request always yields the same response, with no network or API key.
+
+const SHOPPING_KEYWORDS = ['buy', 'shop', 'link', 'where', 'price', 'cost', 'similar', 'find'];
+
+export const MOCK_GROUNDING_CHUNKS: GroundingChunk[] = [
+  { web: { title: 'Mock Optics - Classic Frames', uri: 'https://example.com/mock-optics/classic' } },
+  { web: { title: 'Frame Outlet - Similar Styles', uri: 'https://example.com/frame-outlet/similar' } },
+  { web: { title: 'Eyewear Co. - Bestsellers', uri: 'https://example.com/eyewear-co/bestsellers' } },
+];
+
+const MOCK_SHOPPING_ANSWER = "[Mock] Here are a few retailers carrying frames close to the ones you're wearing:\n\n- **Mock Optics** has the closest match in shape and color.\n- **Frame Outlet** carries similar styles for less.\n- **Eyewear Co.** lists a near-identical pair among its bestsellers.";
+
+// Each bullet is backed by the grounding chunk of the same retailer
+const MOCK_GROUNDING_SUPPORTS: GroundingSupport[] = [
+  { segment: { text: 'has the closest match in shape and color.' }, groundingChunkIndices: [0] },
+  { segment: { text: 'carries similar styles for less.' }, groundingChunkIndices: [1] },
+  { segment: { text: 'lists a near-identical pair among its bestsellers.' }, groundingChunkIndices: [2] },
+];
+
+// Pause between streamed words
+const STREAM_WORD_DELAY_MS = 30;
+
+// Canned structured results keyed by task name
+export const MOCK_STRUCTURED_RESPONSES: Record<string, unknown> = {
+  'analyze-face': {
+    faceShape: 'oval',
+    skinUndertone: 'neutral',
+    browLine: 'arched',
+    faceWidth: 'medium',
+    estimatedFaceWidthMm: 138,
+    recommendedFrames: ['wayfarer', 'aviator', 'cat-eye'],
+    discouragedFrames: ['oversized'],
+    summary: "[Mock] Balanced oval proportions suit most frames; bolder upswept shapes will echo your arched brows."
+  },
+  'detect-landmarks': {
+    leftPupil: { x: 0.4, y: 0.44 },
+    rightPupil: { x: 0.6, y: 0.44 },
+    faceLeft: { x: 0.28, y: 0.45 },
+    faceRight: { x: 0.72, y: 0.45 },
+    cardDetected: true,
+    cardLeft: { x: 0.365, y: 0.22 },
+    cardRight: { x: 0.635, y: 0.22 }
+  },
+  'locate-eyewear': {
+    found: true,
+    box: { x: 0.05, y: 0.2, width: 0.9, height: 0.6 },
+    rotationDegrees: 0
+  },
+  // A solo selfie; group photos need the real detector
+  'detect-faces': {
+    faces: [{ x: 0.3, y: 0.2, width: 0.4, height: 0.5 }]
+  },
+  // Matches a 9-frame sample of a turn from one profile to the other
+  'estimate-head-pose': {
+    yaws: [-85, -65, -40, -15, 0, 15, 40, 65, 85]
+  },
+  'verify-look': {
+    identityScore: 97,
+    eyewearPresent: true,
+    issues: []
+  },
+  // Source numbers refer to MOCK_GROUNDING_CHUNKS (1-based)
+  'extract-products': {
+    products: [
+      { name: 'Classic Metal Aviator', brand: 'Mock Optics', price: 129, currency: 'USD', retailer: 'Mock Optics', rationale: 'Same teardrop lens and thin gold rim.', sourceIndex: 1 },
+      { name: 'Heritage Pilot', brand: 'Frame Outlet', price: 79, currency: 'USD', retailer: 'Frame Outlet', rationale: 'Similar double bridge at a lower price.', sourceIndex: 2 },
+      { name: 'Pilot Lite', brand: 'Frame Outlet', price: 99, currency: 'USD', retailer: 'Frame Outlet', rationale: 'Lighter titanium take on the same shape.', sourceIndex: 2 },
+      { name: 'Signature Aviator', brand: 'Eyewear Co.', currency: 'USD', retailer: 'Eyewear Co.', rationale: 'Near-identical silhouette; price on request.', sourceIndex: 3 },
+    ]
+  },
+};
+
+const isText = (part: ProviderPart): part is { text: string } => 'text' in part;
+
+// Small artificial delay so loading states are visible during demos; aborts like a real request
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    // Long-lived signals see many calls, so the listener goes once the wait is over
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const createMockProvider = ({ latencyMs = 400 }: { latencyMs?: number } = {}): AIProvider => {
+  /**
+   * Returns the base image unchanged, so the try-on flow, version history and slider all work offline.
+   */
+  const editImage = async ({ parts, signal }: ImageEditRequest): Promise<string> => {
+    await delay(latencyMs, signal);
+    const baseImage = parts.find(part => 'inlineData' in part);
+    if (!baseImage || !('inlineData' in baseImage)) {
+      throw new EmptyImageError();
+    }
+    return baseImage.inlineData.data;
+  };
+
+  const chat = async ({ contents, enableSearch = false, onText, signal }: ChatRequest): Promise<ChatResult> => {
+    await delay(latencyMs, signal);
+    const lastTurn = contents[contents.length - 1];
+    // The user's message is always the last text part of the final turn
+    const message = (lastTurn?.parts.filter(isText).pop()?.text || '').toLowerCase();
+    const isShopping = enableSearch && SHOPPING_KEYWORDS.some(k => message.includes(k));
+
+    const text = isShopping
+      ? MOCK_SHOPPING_ANSWER
+      : `[Mock] Those frames **balance your features** well. You asked: "${message.slice(0, 80)}" - try a slightly thinner rim for a lighter look.`;
+
+    // Stream word by word, like the real chat model
+    const words = text.split(/(?<= )/);
+    for (let i = 1; i <= words.length; i++) {
+      await delay(STREAM_WORD_DELAY_MS, signal);
+      onText?.(words.slice(0, i).join(''));
+    }
+
+    return {
+      text,
+      groundingChunks: isShopping ? MOCK_GROUNDING_CHUNKS : [],
+      groundingSupports: isShopping ? MOCK_GROUNDING_SUPPORTS : []
+    };
+  };
+
+  /**
+   * Serves canned JSON per task. Unknown tasks reject, so callers exercise their offline fallbacks.
+   */
+  const generateStructured = async ({ task, signal }: StructuredRequest): Promise<unknown> => {
+    await delay(latencyMs, signal);
+    const canned = MOCK_STRUCTURED_RESPONSES[task];
+    if (canned === undefined) {
+      throw new Error(`Structured task "${task}" is not available offline.`);
+    }
+    return canned;
+  };
+
+  return { name: 'mock', models: { image: 'mock', chat: 'mock', structured: 'mock' }, editImage, chat, generateStructured };
+};
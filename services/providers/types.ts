@@ -0,0 +1,78 @@
+import { Schema } from "@google/genai";
+
+// --- Provider-neutral request/response shapes ---
+// These mirror the Gemini `Content` / `Part` structure so the Gemini provider can pass them straight through.
+
+export interface InlineImagePart {
+  inlineData: {
+    data: string; // Raw base64, no data URL prefix
+    mimeType: string;
+  };
+}
+
+export interface TextPart {
+  text: string;
+}
+
+export type ProviderPart = InlineImagePart | TextPart;
+
+export interface ProviderContent {
+  role: 'user' | 'model';
+  parts: ProviderPart[];
+}
+
+export interface GroundingChunk {
+  web?: {
+    uri?: string;
+    title?: string;
+  };
+}
+
+// Links a span of the answer to the chunks that back it
+export interface GroundingSupport {
+  segment?: {
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+}
+
+export interface ImageEditRequest {
+  parts: ProviderPart[]; // Base image first, then any references, then the instruction
+  signal?: AbortSignal;
+}
+
+export interface ChatRequest {
+  contents: ProviderContent[];
+  systemInstruction: string;
+  enableSearch?: boolean; // Ground the answer with web search (shopping links)
+  onText?: (textSoFar: string) => void; // Called as the answer streams in
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  text: string;
+  groundingChunks: GroundingChunk[];
+  groundingSupports: GroundingSupport[];
+}
+
+export interface StructuredRequest {
+  task: string; // Stable task name (e.g. 'classify-intent'), lets offline backends serve canned results
+  contents: ProviderContent[];
+  systemInstruction: string;
+  schema: Schema; // Response schema built with the Gemini `Type` enum
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend able to edit images and hold a (optionally grounded) stylist conversation.
+ * Implementations should honor `signal` and throw the typed errors from `../errors` where they can tell.
+ */
+export interface AIProvider {
+  name: string;
+  models: { image: string; chat: string; structured: string }; // Model ids, for picking prompt variants
+  editImage: (request: ImageEditRequest) => Promise<string>; // Returns raw base64 JPEG
+  chat: (request: ChatRequest) => Promise<ChatResult>; // Streams through `onText`, resolves with the full answer
+  generateStructured: (request: StructuredRequest) => Promise<unknown>; // Parsed JSON matching the schema
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { buildCorrectivePrompt } from './qualityGuard';
+
+describe('buildCorrectivePrompt', () => {
+  it('spells the issues out in English whatever the UI language', () => {
+    const prompt = buildCorrectivePrompt('make the frames round', [
+      { key: 'quality.issueFraming' },
+      { key: 'quality.issueVerifier', variables: { detail: 'the hair color changed' } },
+    ]);
+
+    expect(prompt).toContain('make the frames round. The previous attempt had these problems: the framing or crop changed; the hair color changed.');
+  });
+});
@@ -0,0 +1,120 @@
+import { QualityReport, ReferenceViewType } from "../types";
+import { generateEyewearImage, verifyLook } from "./geminiService";
+import { CancelledError, toGenerationError } from "./errors";
+import { RequestOptions } from "./retry";
+import { compareFraming, getImageSize } from "../utils/imageUtils";
+import { LocalizedMessage, translate } from "./i18n";
+
+// --- Quality guard: verify every generated look, retry the ones that drift ---
+
+// Corrective retries after the first attempt
+export const MAX_QUALITY_RETRIES = 2;
+
+const MIN_IDENTITY_SCORE = 70;
+const MIN_FRAMING_SCORE = 60;
+// Aspect ratios within 2% count as the same
+const ASPECT_RATIO_TOLERANCE = 0.02;
+// The result may be smaller than the base, but not by more than a quarter
+const MIN_RESOLUTION_RATIO = 0.75;
+
+const toDataUrl = (base64: string) => `data:image/jpeg;base64,${base64}`;
+
+/**
+ * Scores a generated look against the image it was made from. If the verifier model is
+ * unavailable, the report relies on the local checks alone.
+ */
+export const assessLook = async (
+  baseImageBase64: string,
+  resultImageBase64: string,
+  { signal }: RequestOptions = {}
+): Promise<Omit<QualityReport, 'attempts'>> => {
+  const baseUrl = toDataUrl(baseImageBase64);
+  const resultUrl = toDataUrl(resultImageBase64);
+
+  const [baseSize, resultSize, framingScore] = await Promise.all([
+    getImageSize(baseUrl),
+    getImageSize(resultUrl),
+    compareFraming(baseUrl, resultUrl)
+  ]);
+
+  let verdict: Awaited<ReturnType<typeof verifyLook>> | null = null;
+  try {
+    verdict = await verifyLook(baseImageBase64, resultImageBase64, { signal });
+  } catch (error) {
+    const generationError = toGenerationError(error);
+    if (generationError instanceof CancelledError) throw generationError;
+  }
+
+  const aspectRatioMatch = Math.abs(resultSize.width / resultSize.height - baseSize.width / baseSize.height)
+    <= (baseSize.width / baseSize.height) * ASPECT_RATIO_TOLERANCE;
+  const resolutionOk = Math.max(resultSize.width, resultSize.height) >= Math.max(baseSize.width, baseSize.height) * MIN_RESOLUTION_RATIO;
+
+  const issues: LocalizedMessage[] = (verdict?.issues ?? []).map(detail => ({ key: 'quality.issueVerifier', variables: { detail } }));
+  if (verdict && !verdict.eyewearPresent) issues.push({ key: 'quality.issueNoGlasses' });
+  if (framingScore < MIN_FRAMING_SCORE) issues.push({ key: 'quality.issueFraming' });
+  if (!aspectRatioMatch) {
+    issues.push({
+      key: 'quality.issueAspectRatio',
+      variables: { baseWidth: baseSize.width, baseHeight: baseSize.height, width: resultSize.width, height: resultSize.height }
+    });
+  }
+  if (!resolutionOk) issues.push({ key: 'quality.issueResolution' });
+
+  const identityScore = verdict?.identityScore ?? null;
+  const eyewearPresent = verdict?.eyewearPresent ?? null;
+  const baseScore = identityScore === null ? framingScore : Math.round((identityScore + framingScore) / 2);
+  const score = eyewearPresent === false
+    ? 0
+    : Math.max(0, baseScore - (aspectRatioMatch ? 0 : 20) - (resolutionOk ? 0 : 10));
+
+  return {
+    score,
+    passed: eyewearPresent !== false
+      && (identityScore === null || identityScore >= MIN_IDENTITY_SCORE)
+      && framingScore >= MIN_FRAMING_SCORE
+      && aspectRatioMatch
+      && resolutionOk,
+    identityScore,
+    framingScore,
+    eyewearPresent,
+    aspectRatioMatch,
+    resolutionOk,
+    issues
+  };
+};
+
+/**
+ * Restates the request with the problems the previous attempt had, spelled out in English
+ * like the rest of the prompt.
+ */
+export const buildCorrectivePrompt = (prompt: string, issues: LocalizedMessage[]) =>
+  `${prompt}. The previous attempt had these problems: ${issues.map(issue => translate('en', issue.key, issue.variables)).join('; ')}. Fix them: keep the person's face, identity, expression, hair, pose and background exactly as in the original photo, keep the same framing, crop and aspect ratio, and make sure the glasses are clearly visible on the face`;
+
+/**
+ * Generates a look and checks it, retrying with a corrective prompt while it fails. Returns
+ * the first passing result, or the best-scoring one once the retries run out.
+ */
+export const generateVerifiedLook = async (
+  baseImageBase64: string,
+  prompt: string,
+  references: Array<{ base64: string; view: ReferenceViewType }> = [],
+  { signal, maxRetries = MAX_QUALITY_RETRIES, onRetry }: RequestOptions & { maxRetries?: number; onRetry?: (attempt: number, issues: LocalizedMessage[]) => void } = {}
+): Promise<{ image: string; quality: QualityReport }> => {
+  let best: { image: string; quality: QualityReport } | null = null;
+  let issues: LocalizedMessage[] = [];
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+    if (attempt > 1) onRetry?.(attempt, issues);
+
+    const attemptPrompt = attempt === 1 ? prompt : buildCorrectivePrompt(prompt, issues);
+    const image = await generateEyewearImage(baseImageBase64, attemptPrompt, references, { signal });
+    const report = await assessLook(baseImageBase64, image, { signal });
+    const quality = { ...report, attempts: attempt };
+
+    if (!best || quality.score > best.quality.score) best = { image, quality };
+    if (quality.passed) return { image, quality };
+    issues = report.issues.length > 0 ? report.issues : [{ key: 'quality.issueMismatch' }];
+  }
+
+  return { ...best!, quality: { ...best!.quality, attempts: maxRetries + 1 } };
+};
@@ -0,0 +1,50 @@
+import { isolateEyewear, locateEyewear } from "./geminiService";
+import { CancelledError, toGenerationError } from "./errors";
+import { RequestOptions } from "./retry";
+import { LocalizedMessage } from "./i18n";
+import { cropAndLevel } from "../utils/imageUtils";
+
+// --- Reference preprocessing: crop, level and isolate the glasses before a try-on ---
+
+export interface PreprocessedReference {
+  image: string; // Data URL of the cleaned reference
+  notes: LocalizedMessage[]; // What was (or couldn't be) done, for the preview
+}
+
+// Tilt below this is noise, not worth resampling the image for
+const MIN_ROTATION_DEGREES = 2;
+
+/**
+ * Crops the reference to the detected glasses, levels them, then asks the image model to
+ * remove everything else. Each step that fails is skipped, so the user always gets a
+ * preview to accept or reject; only a cancel stops the pipeline.
+ */
+export const preprocessReference = async (dataUrl: string, { signal }: RequestOptions = {}): Promise<PreprocessedReference> => {
+  const notes: LocalizedMessage[] = [];
+  let image = dataUrl;
+
+  try {
+    const location = await locateEyewear(image.split(',')[1], { signal });
+    if (location.found) {
+      const rotation = Math.abs(location.rotationDegrees) >= MIN_ROTATION_DEGREES ? location.rotationDegrees : 0;
+      image = await cropAndLevel(image, location.box, rotation);
+      notes.push(rotation ? { key: 'reference.noteCroppedLeveled', variables: { degrees: Math.round(rotation) } } : { key: 'reference.noteCropped' });
+    } else {
+      notes.push({ key: 'reference.noteNotFound' });
+    }
+  } catch (error) {
+    const generationError = toGenerationError(error);
+    if (generationError instanceof CancelledError) throw generationError;
+    notes.push({ key: 'reference.noteLocateFailed' });
+  }
+
+  try {
+    image = `data:image/jpeg;base64,${await isolateEyewear(image.split(',')[1], { signal })}`;
+    notes.push({ key: 'reference.noteBackgroundRemoved' });
+  } catch (error) {
+    if (error instanceof CancelledError) throw error;
+    notes.push({ key: 'reference.noteBackgroundFailed' });
+  }
+
+  return { image, notes };
+};
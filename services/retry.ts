@@ -0,0 +1,84 @@
+import { CancelledError, TimeoutError, toGenerationError } from "./errors";
+
+// --- Retries, timeouts and cancellation for AI calls ---
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Cancels the whole operation, including backoff waits
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts after the first
+  baseDelayMs?: number; // Doubles on every retry
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `operation` with a per-attempt timeout, retrying retryable GenerationErrors with
+ * exponential backoff and jitter. Each attempt gets its own AbortSignal that fires on
+ * timeout or when the caller's signal aborts. Always rejects with a typed GenerationError.
+ */
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, baseDelayMs = DEFAULT_BASE_DELAY_MS }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Don't rely on the operation honoring its signal: settle as soon as it aborts
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error('Aborted')), { once: true });
+    });
+
+    try {
+      const attemptPromise = operation(controller.signal);
+      attemptPromise.catch(() => undefined); // A late failure after an abort is expected
+      return await Promise.race([attemptPromise, aborted]);
+    } catch (rawError) {
+      const error = signal?.aborted
+        ? new CancelledError(undefined, { cause: rawError })
+        : timedOut
+          ? new TimeoutError(`Request timed out after ${timeoutMs}ms.`, { cause: rawError })
+          : toGenerationError(rawError);
+
+      if (!error.retryable || attempt >= retries) throw error;
+
+      const delay = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      console.warn(`Attempt ${attempt + 1} failed (${error.name}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
@@ -0,0 +1,251 @@
+import { ChatMessage, LookVersion, ReferenceViewType, SessionSnapshot, SessionSummary } from "../types";
+import { blobToDataUrl, dataUrlToBlob } from "../utils/imageUtils";
+
+// --- Local session persistence (IndexedDB) ---
+// Session records hold ids only; every image lives once per session as a Blob in the images store.
+
+const DB_NAME = 'visionary-ai';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const IMAGES_STORE = 'images';
+
+interface StoredVersion extends Omit<LookVersion, 'image' | 'referenceImage'> {
+  imageId: string;
+  referenceImageId?: string;
+}
+
+interface StoredMessage extends Omit<ChatMessage, 'contextImage'> {
+  contextImageId?: string;
+}
+
+interface StoredSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  userImageId: string;
+  referenceImageId: string | null;
+  thumbnailId: string;
+  versions: StoredVersion[];
+  selectedVersionId: string | null;
+  compareVersionId: string | null;
+  chatHistory: StoredMessage[];
+  faceProfile: SessionSnapshot['faceProfile'];
+  measurement?: SessionSnapshot['measurement'];
+  referenceViews?: Array<{ view: ReferenceViewType; imageId: string }>;
+}
+
+interface StoredImage {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+// --- Helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+          images.createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// FNV-1a over the data URL, so an unchanged image keeps its key across saves
+const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36) + text.length.toString(36);
+};
+
+// --- Public API ---
+
+/**
+ * Creates or updates a session. The stored name and creation date win over the snapshot's,
+ * so renames made from the session list survive autosaves.
+ */
+export const saveSession = async (snapshot: SessionSnapshot): Promise<void> => {
+  // Convert images up front: a transaction commits as soon as we await anything that isn't IndexedDB
+  const images = new Map<string, StoredImage>();
+  const toImageId = (dataUrl: string): string => {
+    const id = `${snapshot.id}:${hashString(dataUrl)}`;
+    if (!images.has(id)) {
+      images.set(id, { id, sessionId: snapshot.id, blob: dataUrlToBlob(dataUrl) });
+    }
+    return id;
+  };
+
+  const selectedImage = snapshot.versions.find(v => v.id === snapshot.selectedVersionId)?.image;
+
+  const record: StoredSession = {
+    id: snapshot.id,
+    name: snapshot.name,
+    createdAt: snapshot.createdAt,
+    updatedAt: snapshot.updatedAt,
+    userImageId: toImageId(snapshot.userImage),
+    referenceImageId: snapshot.referenceImage ? toImageId(snapshot.referenceImage) : null,
+    thumbnailId: toImageId(selectedImage || snapshot.userImage),
+    versions: snapshot.versions.map(({ image, referenceImage, ...rest }) => ({
+      ...rest,
+      imageId: toImageId(image),
+      referenceImageId: referenceImage ? toImageId(referenceImage) : undefined
+    })),
+    selectedVersionId: snapshot.selectedVersionId,
+    compareVersionId: snapshot.compareVersionId,
+    chatHistory: snapshot.chatHistory.map(({ contextImage, ...rest }) => ({
+      ...rest,
+      contextImageId: contextImage ? toImageId(contextImage) : undefined
+    })),
+    faceProfile: snapshot.faceProfile,
+    measurement: snapshot.measurement ?? null,
+    referenceViews: snapshot.referenceViews?.map(({ image, view }) => ({ view, imageId: toImageId(image) }))
+  };
+
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  const sessions = tx.objectStore(SESSIONS_STORE);
+  const imageStore = tx.objectStore(IMAGES_STORE);
+
+  const existing = await promisify<StoredSession | undefined>(sessions.get(snapshot.id));
+  if (existing) {
+    record.name = existing.name;
+    record.createdAt = existing.createdAt;
+  }
+  sessions.put(record);
+
+  // Write new images, drop ones the session no longer references
+  const storedKeys = new Set((await promisify(imageStore.index('sessionId').getAllKeys(snapshot.id))).map(String));
+  images.forEach((image, id) => {
+    if (!storedKeys.has(id)) imageStore.put(image);
+  });
+  storedKeys.forEach(id => {
+    if (!images.has(id)) imageStore.delete(id);
+  });
+
+  await done;
+};
+
+/**
+ * Lists saved sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readonly');
+  const records = await promisify<StoredSession[]>(tx.objectStore(SESSIONS_STORE).getAll());
+  const thumbnails = await Promise.all(
+    records.map(record => promisify<StoredImage | undefined>(tx.objectStore(IMAGES_STORE).get(record.thumbnailId)))
+  );
+
+  const summaries = await Promise.all(records.map(async (record, i) => ({
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    thumbnail: thumbnails[i] ? await blobToDataUrl(thumbnails[i]!.blob) : undefined
+  })));
+
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Loads a full session with every image restored to a data URL.
+ */
+export const loadSession = async (id: string): Promise<SessionSnapshot | null> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readonly');
+  const record = await promisify<StoredSession | undefined>(tx.objectStore(SESSIONS_STORE).get(id));
+  if (!record) return null;
+
+  const storedImages = await promisify<StoredImage[]>(tx.objectStore(IMAGES_STORE).index('sessionId').getAll(id));
+  const dataUrls = new Map<string, string>();
+  await Promise.all(storedImages.map(async image => {
+    dataUrls.set(image.id, await blobToDataUrl(image.blob));
+  }));
+
+  const imageFor = (imageId: string): string => {
+    const dataUrl = dataUrls.get(imageId);
+    if (!dataUrl) throw new Error(`Session ${id} is missing image ${imageId}.`);
+    return dataUrl;
+  };
+
+  return {
+    id: record.id,
+    name: record.name,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    userImage: imageFor(record.userImageId),
+    referenceImage: record.referenceImageId ? imageFor(record.referenceImageId) : null,
+    versions: record.versions.map(({ imageId, referenceImageId, ...rest }) => ({
+      ...rest,
+      image: imageFor(imageId),
+      referenceImage: referenceImageId ? imageFor(referenceImageId) : undefined
+    })),
+    selectedVersionId: record.selectedVersionId,
+    compareVersionId: record.compareVersionId,
+    chatHistory: record.chatHistory.map(({ contextImageId, ...rest }) => ({
+      ...rest,
+      contextImage: contextImageId ? imageFor(contextImageId) : undefined
+    })),
+    faceProfile: record.faceProfile,
+    measurement: record.measurement ?? null,
+    referenceViews: record.referenceViews?.map(({ imageId, view }) => ({ view, image: imageFor(imageId) }))
+  };
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  const sessions = tx.objectStore(SESSIONS_STORE);
+  const record = await promisify<StoredSession | undefined>(sessions.get(id));
+  if (record) {
+    sessions.put({ ...record, name });
+  }
+  await done;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(tx);
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  const keys = await promisify(imageStore.index('sessionId').getAllKeys(id));
+  keys.forEach(key => imageStore.delete(key));
+  await done;
+};
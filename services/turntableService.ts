@@ -0,0 +1,119 @@
+import { HeadAngle, HeadTurnFrame, ReferenceViewType } from "../types";
+import { estimateHeadYaw } from "./geminiService";
+import { generateVerifiedLook } from "./qualityGuard";
+import { CancelledError, InvalidClipError } from "./errors";
+import { RequestOptions } from "./retry";
+import { getVideoDuration, sampleVideoFrames } from "../utils/videoUtils";
+
+// --- 360° try-on: keyframes from a short head-turn clip, styled to match at every angle ---
+
+export const MIN_CLIP_SECONDS = 2.5;
+export const MAX_CLIP_SECONDS = 10;
+
+// Frames sent to the pose estimator; enough to land near every target angle in a 3-5 s turn
+const SAMPLE_COUNT = 9;
+// How far a sampled frame may be from a target angle and still stand in for it
+const ANGLE_TOLERANCE_DEGREES = 20;
+
+export const HEAD_ANGLES: Array<{ angle: HeadAngle; yaw: number; label: string }> = [
+  { angle: 'profile-left', yaw: -90, label: 'Profile' },
+  { angle: 'three-quarter-left', yaw: -45, label: '3/4' },
+  { angle: 'front', yaw: 0, label: 'Front' },
+  { angle: 'three-quarter-right', yaw: 45, label: '3/4' },
+  { angle: 'profile-right', yaw: 90, label: 'Profile' },
+];
+
+const dataUrlToBase64 = (dataUrl: string) => dataUrl.split(',')[1];
+
+/**
+ * Picks the sample closest to each target angle, within tolerance, using each sample at most
+ * once. A clip that only turns one way simply has no frames for the other side.
+ */
+export const pickKeyframes = (samples: Array<{ timeSec: number; image: string; yaw: number | null }>): HeadTurnFrame[] => {
+  const used = new Set<number>();
+  const frames: HeadTurnFrame[] = [];
+
+  HEAD_ANGLES.forEach(target => {
+    let best = -1;
+    samples.forEach((sample, i) => {
+      if (sample.yaw === null || used.has(i)) return;
+      if (best === -1 || Math.abs(sample.yaw - target.yaw) < Math.abs(samples[best].yaw! - target.yaw)) best = i;
+    });
+    if (best === -1 || Math.abs(samples[best].yaw! - target.yaw) > ANGLE_TOLERANCE_DEGREES) return;
+
+    used.add(best);
+    frames.push({ angle: target.angle, yaw: samples[best].yaw, timeSec: samples[best].timeSec, image: samples[best].image });
+  });
+
+  return frames;
+};
+
+/**
+ * Validates the clip, samples it and keeps one frame per head angle it covers.
+ * Needs a frontal frame plus at least one turned one.
+ */
+export const extractKeyframes = async (
+  clip: Blob,
+  { signal, mirror = false }: RequestOptions & { mirror?: boolean } = {}
+): Promise<HeadTurnFrame[]> => {
+  const duration = await getVideoDuration(clip);
+  if (duration < MIN_CLIP_SECONDS) {
+    throw new InvalidClipError(`Clip is ${duration.toFixed(1)}s long.`, { key: 'error.clipTooShort' });
+  }
+  if (duration > MAX_CLIP_SECONDS) {
+    throw new InvalidClipError(`Clip is ${duration.toFixed(1)}s long.`, { key: 'error.clipTooLong', variables: { seconds: MAX_CLIP_SECONDS } });
+  }
+
+  const samples = await sampleVideoFrames(clip, SAMPLE_COUNT, { mirror });
+  if (signal?.aborted) throw new CancelledError();
+
+  const yaws = await estimateHeadYaw(samples.map(s => dataUrlToBase64(s.image)), { signal });
+  const frames = pickKeyframes(samples.map((sample, i) => ({ ...sample, yaw: yaws[i] })));
+
+  if (!frames.some(f => f.angle === 'front') || frames.length < 2) {
+    throw new InvalidClipError(`Found ${frames.length} usable angles.`, { key: 'error.clipNoTurn' });
+  }
+  return frames;
+};
+
+const getAngleLabel = (angle: HeadAngle) => {
+  const target = HEAD_ANGLES.find(a => a.angle === angle)!;
+  return target.yaw === 0 ? 'front' : `${target.label.toLowerCase()} (${Math.abs(target.yaw)}°)`;
+};
+
+/**
+ * Styles the front frame first, then every other angle with that result as an extra
+ * reference, so the model copies one pair of glasses around the head instead of
+ * reinventing them per frame. Each frame goes through the quality guard against its
+ * unstyled original.
+ */
+export const styleKeyframes = async (
+  frames: HeadTurnFrame[],
+  prompt: string,
+  references: Array<{ base64: string; view: ReferenceViewType }>,
+  { signal, onProgress }: RequestOptions & { onProgress?: (done: number, total: number) => void } = {}
+): Promise<HeadTurnFrame[]> => {
+  const front = frames.find(f => f.angle === 'front');
+  if (!front) throw new InvalidClipError("No frontal keyframe.", { key: 'error.clipNoFront' });
+
+  onProgress?.(0, frames.length);
+  const styledFront = await generateVerifiedLook(dataUrlToBase64(front.image), prompt, references, { signal });
+  const styled = new Map<HeadAngle, Pick<HeadTurnFrame, 'styledImage' | 'quality'>>([
+    ['front', { styledImage: `data:image/jpeg;base64,${styledFront.image}`, quality: styledFront.quality }]
+  ]);
+  onProgress?.(1, frames.length);
+
+  for (const frame of frames.filter(f => f.angle !== 'front')) {
+    const anglePrompt = `${prompt}. In this frame the head is turned to a ${getAngleLabel(frame.angle)} view; the last reference image shows the same person already wearing the chosen glasses from the front, so reproduce exactly that frame, color, lens tint and size, seen from this angle with the temples in correct perspective`;
+    const { image, quality } = await generateVerifiedLook(
+      dataUrlToBase64(frame.image),
+      anglePrompt,
+      [...references, { base64: styledFront.image, view: 'front' }],
+      { signal }
+    );
+    styled.set(frame.angle, { styledImage: `data:image/jpeg;base64,${image}`, quality });
+    onProgress?.(styled.size, frames.length);
+  }
+
+  return frames.map(frame => ({ ...frame, ...styled.get(frame.angle) }));
+};
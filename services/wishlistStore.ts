@@ -0,0 +1,35 @@
+import { ProductResult } from "../types";
+
+// --- Wishlist ---
+// Saved products live in localStorage: they're small, and should survive across sessions.
+
+const STORAGE_KEY = 'visionary-ai:wishlist';
+
+export const loadWishlist = (): ProductResult[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveWishlist = (items: ProductResult[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.warn("Could not save the wishlist:", error);
+  }
+};
+
+/**
+ * Adds the product, or removes it if it's already saved. Products are matched by source URL
+ * and name, since ids are only unique within one answer.
+ */
+export const toggleWishlistItem = (items: ProductResult[], product: ProductResult): ProductResult[] => {
+  const exists = items.some(item => isSameProduct(item, product));
+  return exists ? items.filter(item => !isSameProduct(item, product)) : [...items, product];
+};
+
+export const isSameProduct = (a: ProductResult, b: ProductResult) =>
+  a.sourceUrl === b.sourceUrl && a.name === b.name;
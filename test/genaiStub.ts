@@ -0,0 +1,27 @@
+import { vi } from 'vitest';
+
+// --- Stubbed @google/genai client ---
+// test/setup.ts swaps GoogleGenAI for FakeGoogleGenAI in every test, so nothing can reach the
+// network. Tests queue the responses they need on `genaiMock` and assert on its calls.
+
+export const genaiMock = {
+  generateContent: vi.fn(),
+  generateContentStream: vi.fn(),
+};
+
+export class FakeGoogleGenAI {
+  models = {
+    generateContent: (...args: unknown[]) => genaiMock.generateContent(...args),
+    generateContentStream: (...args: unknown[]) => genaiMock.generateContentStream(...args),
+  };
+
+  constructor(_options?: unknown) {}
+}
+
+/**
+ * Shapes a list of chunks the way generateContentStream returns them: a promise of an
+ * async iterable.
+ */
+export const streamOf = <T>(chunks: T[]) => Promise.resolve((async function* () {
+  yield* chunks;
+})());
@@ -0,0 +1,61 @@
+import 'vitest-canvas-mock';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { genaiMock } from './genaiStub';
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const { FakeGoogleGenAI } = await import('./genaiStub');
+  return { ...(await importOriginal<typeof import('@google/genai')>()), GoogleGenAI: FakeGoogleGenAI };
+});
+
+// --- jsdom gaps ---
+
+// Size every test image reports once "loaded"
+export const TEST_IMAGE_SIZE = { width: 1600, height: 1200 };
+
+// jsdom never loads images, so onload would never fire. Report a fixed size and fire load on
+// the next tick, the way a cached image would behave.
+Object.defineProperty(HTMLImageElement.prototype, 'src', {
+  configurable: true,
+  get(this: HTMLImageElement) {
+    return this.getAttribute('src') ?? '';
+  },
+  set(this: HTMLImageElement, value: string) {
+    this.setAttribute('src', value);
+    setTimeout(() => this.dispatchEvent(new Event('load')));
+  },
+});
+for (const [property, dimension] of [['naturalWidth', 'width'], ['width', 'width'], ['naturalHeight', 'height'], ['height', 'height']] as const) {
+  Object.defineProperty(HTMLImageElement.prototype, property, {
+    configurable: true,
+    get: () => TEST_IMAGE_SIZE[dimension],
+  });
+}
+
+Element.prototype.scrollIntoView = function () {};
+
+// jsdom has no PointerEvent; without it fireEvent.pointer* drops clientX and pointerId
+if (!globalThis.PointerEvent) {
+  class PointerEvent extends MouseEvent {
+    pointerId: number;
+    pointerType: string;
+    isPrimary: boolean;
+
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 1;
+      this.pointerType = init.pointerType ?? 'mouse';
+      this.isPrimary = init.isPrimary ?? true;
+    }
+  }
+  globalThis.PointerEvent = PointerEvent as typeof globalThis.PointerEvent;
+}
+
+beforeEach(() => {
+  genaiMock.generateContent.mockReset();
+  genaiMock.generateContentStream.mockReset();
+});
+
+afterEach(() => {
+  cleanup();
+});
@@ -1,15 +1,32 @@
+import type { LocalizedMessage } from './services/i18n';
+
 export enum MessageRole {
   USER = 'user',
   MODEL = 'model',
   SYSTEM = 'system'
 }
 
+export interface ProductResult {
+  id: string;
+  name: string;
+  brand: string;
+  price: number | null; // null when the source didn't list one
+  currency: string; // ISO 4217
+  retailer: string;
+  imageUrl?: string;
+  rationale: string; // Why it resembles the look
+  sourceUrl: string; // Always one of the grounding sources
+}
+
 export interface ChatMessage {
   role: MessageRole;
   text: string;
+  modelText?: string; // Sent to the model instead of `text` when `text` is a translated UI message
   timestamp: number;
   isError?: boolean;
   groundingUrls?: Array<{ title: string; uri: string }>;
+  contextImage?: string; // Data URL of the look this turn was about
+  products?: ProductResult[];
 }
 
 export interface GenerationState {
@@ -17,14 +34,242 @@ export interface GenerationState {
   progress: string; // Message to show user
 }
 
+export interface LookVersion {
+  id: string;
+  parentId: string | null; // null when edited directly from the original photo
+  image: string; // Data URL
+  prompt: string; // As sent to the image model, in English unless the user typed it
+  label?: LocalizedMessage; // Shown instead of the prompt when that is a model instruction
+  referenceImage?: string; // Data URL of the frames used, if any
+  frameSku?: string; // Catalog frame tried on, if any
+  createdAt: number;
+  starred?: boolean;
+  quality?: QualityReport; // Post-generation checks; missing for region edits and older looks
+}
+
+export interface BatchItem {
+  id: string;
+  label: LocalizedMessage;
+  prompt: string;
+  referenceImage?: string; // Data URL
+  frameSku?: string;
+  status: 'pending' | 'running' | 'done' | 'error' | 'cancelled';
+  versionId?: string; // Set once the look is generated
+  error?: LocalizedMessage; // Translated when shown, so it follows a language switch
+}
+
+export type IntentType = 'EDIT' | 'SHOP' | 'ADVICE' | 'COMPARE' | 'UNDO' | 'REDO';
+
+export interface IntentAttributes {
+  color?: string;
+  shape?: string;
+  material?: string;
+}
+
+export interface IntentResult {
+  intent: IntentType;
+  attributes: IntentAttributes;
+  source: 'model' | 'keywords'; // Which classifier produced the result
+}
+
+export type FaceShape = 'oval' | 'round' | 'square' | 'heart';
+
+export interface FaceProfile {
+  faceShape: FaceShape;
+  skinUndertone: 'warm' | 'cool' | 'neutral';
+  browLine: 'straight' | 'arched' | 'rounded' | 'angled';
+  faceWidth: 'narrow' | 'medium' | 'wide';
+  estimatedFaceWidthMm: number;
+  recommendedFrames: string[]; // Frame family ids, e.g. 'aviator', 'round'
+  discouragedFrames: string[];
+  summary: string; // One or two sentences of advice
+}
+
+export type StyleSuitability = 'recommended' | 'discouraged' | 'neutral';
+
+export interface SessionSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  userImage: string; // Data URL
+  referenceImage: string | null;
+  versions: LookVersion[];
+  selectedVersionId: string | null;
+  compareVersionId: string | null;
+  chatHistory: ChatMessage[];
+  faceProfile: FaceProfile | null;
+  measurement?: FaceMeasurement | null; // Missing in sessions saved before measuring existed
+  referenceViews?: ReferenceView[]; // All reference views; referenceImage is the first of them
+}
+
+/**
+ * The part of the app that undo/redo restores, chat included, so replies about an undone
+ * look go away with it. The undo itself is then reported as a new message.
+ */
+export interface WorkspaceState {
+  session: { id: string; name: string; createdAt: number } | null;
+  userImage: string | null;
+  referenceViews: ReferenceView[];
+  versions: LookVersion[];
+  selectedVersionId: string | null;
+  compareVersionId: string | null;
+  faceProfile: FaceProfile | null;
+  measurement: FaceMeasurement | null;
+  chatHistory: ChatMessage[];
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail?: string; // Data URL of the selected look (or the original photo)
+}
+
 export enum AppMode {
   UPLOAD = 'upload',
   TRY_ON = 'try_on'
 }
 
-export interface StylistOption {
+export interface FrameColorVariant {
   id: string;
-  label: string;
+  name: string;
+  hex: string;
+}
+
+export interface CatalogFrame {
+  sku: string;
+  brand: string;
+  model: string;
+  shape: string; // Frame family id, matches the families used in face analysis
+  material: string;
+  colors: FrameColorVariant[];
+  lensWidthMm: number;
+  bridgeMm: number;
+  templeLengthMm: number;
+  price: number;
+  currency: string; // ISO 4217
+  imageUrl: string; // Product shot, used as the try-on reference
+  retailerUrl: string;
+}
+
+export interface CatalogFilters {
+  query: string;
+  shape?: string;
+  material?: string;
+  maxPrice?: number;
+}
+export type LensIndex = 1.5 | 1.6 | 1.67 | 1.74;
+
+export type LensCoating = 'none' | 'gradient' | 'mirror';
+
+export interface Prescription {
+  sph: number; // Sphere, diopters
+  cyl: number; // Cylinder, diopters
+}
+
+export interface LensOptions {
+  tintId: string | null; // null = clear lenses
+  tintDensity: number; // 0-100 (%), outdoor darkness for photochromic lenses
+  coating: LensCoating;
+  finish: 'anti-reflective' | 'glossy';
+  blueLightFilter: boolean;
+  photochromic: boolean;
+  lightCondition: 'indoor' | 'outdoor'; // Which state of a photochromic lens to preview
+  prescription: Prescription;
+  index: LensIndex;
+}
+
+export interface LensThickness {
+  centerMm: number;
+  edgeMm: number; // Thickest point of the edge
+}
+
+export interface Point {
+  x: number; // 0-1, fraction of image width
+  y: number; // 0-1, fraction of image height
+}
+
+export interface FaceLandmarks {
+  leftPupil: Point;
+  rightPupil: Point;
+  faceLeft: Point; // Temple edges at eye level
+  faceRight: Point;
+  cardLeft: Point; // Ends of the reference card's long edge
+  cardRight: Point;
+  cardDetected: boolean; // False when the card handles are just placeholders
+}
+
+export interface SizeRange {
+  min: number;
+  max: number;
+}
+
+export interface FaceMeasurement {
+  pdMm: number;
+  faceWidthMm: number;
+  lensWidthMm: SizeRange;
+  bridgeMm: SizeRange;
+  templeLengthMm: SizeRange;
+  landmarks: FaceLandmarks;
+}
+
+export type FrameFit = 'too-narrow' | 'good' | 'too-wide';
+
+export type ReferenceViewType = 'front' | 'side' | 'detail';
+
+export interface ReferenceView {
+  view: ReferenceViewType;
+  image: string; // Data URL, cleaned unless the user chose to keep the original
+}
+
+export interface EyewearLocation {
+  found: boolean;
+  box: { x: number; y: number; width: number; height: number }; // Normalized 0-1
+  rotationDegrees: number; // Clockwise tilt of the frame front
+}
+
+export interface QualityReport {
+  score: number; // Overall 0-100
+  passed: boolean;
+  identityScore: number | null; // 0-100 from the verifier model; null if it was unavailable
+  framingScore: number; // 0-100 from a local pixel comparison with the base image
+  eyewearPresent: boolean | null;
+  aspectRatioMatch: boolean;
+  resolutionOk: boolean;
+  attempts: number; // Generations it took, including corrective retries
+  issues: LocalizedMessage[]; // The verifier's own findings come through as 'quality.issueVerifier'
+}
+
+export interface DetectedFace {
+  id: string; // 'face-1', 'face-2', ... numbered left to right
+  box: { x: number; y: number; width: number; height: number }; // Normalized 0-1
+}
+
+// One combined edit for every chosen face, or one targeted edit per face in turn
+export type GroupEditMode = 'single-pass' | 'sequential';
+
+export interface FaceStyleAssignment {
+  faceId: string;
   prompt: string;
-  icon: string; // emoji or icon name
-}
\ No newline at end of file
+}
+
+// Left and right refer to the image: 'three-quarter-left' faces toward the image's left edge
+export type HeadAngle = 'profile-left' | 'three-quarter-left' | 'front' | 'three-quarter-right' | 'profile-right';
+
+export interface HeadTurnFrame {
+  angle: HeadAngle;
+  yaw: number | null; // Estimated degrees, negative toward the image's left; null if unknown
+  timeSec: number; // Where in the clip the frame was taken
+  image: string; // Data URL
+  styledImage?: string; // Data URL of the try-on at this angle
+  quality?: QualityReport; // Quality guard result for styledImage
+}
+
+export type Locale = 'en' | 'fa' | 'ar';
+
+export interface StylistLocale {
+  language: string; // In English, as the stylist prompt is, e.g. "Persian"
+  country: string; // Where the user shops, e.g. "Iran (IR)"
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, filterHistory, MAX_HISTORY, pushHistory, redoHistory, undoHistory } from './history';
+
+describe('history stack', () => {
+  it('undoes back to the recorded state and redoes forward again', () => {
+    let history = pushHistory(createHistory<string>(), { label: 'Remove photo', state: 'with photo' });
+
+    const undone = undoHistory(history, 'no photo')!;
+    expect(undone.entry).toEqual({ label: 'Remove photo', state: 'with photo' });
+    history = undone.history;
+
+    const redone = redoHistory(history, 'with photo')!;
+    expect(redone.entry).toEqual({ label: 'Remove photo', state: 'no photo' });
+    expect(redone.history.past).toEqual([{ label: 'Remove photo', state: 'with photo' }]);
+    expect(redone.history.future).toEqual([]);
+  });
+
+  it('has nothing to undo or redo when empty', () => {
+    expect(undoHistory(createHistory<string>(), 'now')).toBeNull();
+    expect(redoHistory(createHistory<string>(), 'now')).toBeNull();
+  });
+
+  it('drops the redo branch on a new change', () => {
+    const history = pushHistory(createHistory<string>(), { label: 'a', state: '0' });
+    const { history: undone } = undoHistory(history, '1')!;
+    expect(pushHistory(undone, { label: 'b', state: '0' }).future).toEqual([]);
+  });
+
+  it('keeps only the most recent entries', () => {
+    let history = createHistory<number>();
+    for (let i = 0; i < MAX_HISTORY + 5; i++) history = pushHistory(history, { label: `change ${i}`, state: i });
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0].state).toBe(5);
+  });
+
+  it('drops entries on both sides that no longer apply', () => {
+    let history = pushHistory(createHistory<string>(), { label: 'a', state: 'session-1' });
+    history = pushHistory(history, { label: 'b', state: 'session-2' });
+    history = undoHistory(history, 'session-2')!.history;
+
+    const filtered = filterHistory(history, state => state !== 'session-2');
+    expect(filtered.past).toEqual([{ label: 'a', state: 'session-1' }]);
+    expect(filtered.future).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+// --- Undo/redo stack helpers ---
+// Each entry holds the full state from before (undo) or after (redo) a labelled change, so
+// stepping through history is a plain state swap. States share their image strings, so
+// keeping a few dozen of them is cheap.
+
+export const MAX_HISTORY = 50;
+
+export interface HistoryEntry<T> {
+  label: string; // What the change did, e.g. "Remove photo"
+  state: T;
+}
+
+export interface HistoryStack<T> {
+  past: HistoryEntry<T>[]; // Oldest first
+  future: HistoryEntry<T>[]; // Next redo last
+}
+
+export const createHistory = <T>(): HistoryStack<T> => ({ past: [], future: [] });
+
+/**
+ * Records the state from before a change. A new change drops anything that could have
+ * been redone, and the oldest entries fall off past MAX_HISTORY.
+ */
+export const pushHistory = <T>(history: HistoryStack<T>, entry: HistoryEntry<T>): HistoryStack<T> => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY),
+  future: []
+});
+
+/**
+ * Steps back one change. Returns the entry to restore and the new stack, which keeps
+ * `current` so the change can be redone; null when there's nothing to undo.
+ */
+export const undoHistory = <T>(history: HistoryStack<T>, current: T): { history: HistoryStack<T>; entry: HistoryEntry<T> } | null => {
+  const entry = history.past.at(-1);
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [...history.future, { label: entry.label, state: current }] }
+  };
+};
+
+/**
+ * Re-applies the last undone change; null when there's nothing to redo.
+ */
+export const redoHistory = <T>(history: HistoryStack<T>, current: T): { history: HistoryStack<T>; entry: HistoryEntry<T> } | null => {
+  const entry = history.future.at(-1);
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: [...history.past, { label: entry.label, state: current }], future: history.future.slice(0, -1) }
+  };
+};
+
+/**
+ * Drops the entries whose state no longer applies, e.g. ones that would reopen a deleted session.
+ */
+export const filterHistory = <T>(history: HistoryStack<T>, keep: (state: T) => boolean): HistoryStack<T> => ({
+  past: history.past.filter(entry => keep(entry.state)),
+  future: history.future.filter(entry => keep(entry.state))
+});
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { dataUrlToBlob, fitWithin, processImageFile } from './imageUtils';
+
+describe('fitWithin', () => {
+  it('scales the longest side down to the limit', () => {
+    expect(fitWithin(2048, 1536)).toEqual({ width: 1024, height: 768 });
+    expect(fitWithin(1000, 2000)).toEqual({ width: 512, height: 1024 });
+  });
+
+  it('never scales up', () => {
+    expect(fitWithin(640, 480)).toEqual({ width: 640, height: 480 });
+  });
+
+  it('takes a custom limit', () => {
+    expect(fitWithin(400, 400, 100)).toEqual({ width: 100, height: 100 });
+  });
+});
+
+describe('processImageFile', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('draws the photo into a resized canvas and returns a JPEG', async () => {
+    const createElement = vi.spyOn(document, 'createElement');
+    const file = new File([dataUrlToBlob('data:image/png;base64,iVBORw0KGgo=')], 'me.png', { type: 'image/png' });
+
+    const result = await processImageFile(file);
+
+    // Test images report 1600x1200 (see test/setup.ts)
+    const canvas = createElement.mock.results.map(r => r.value).find(el => el instanceof HTMLCanvasElement) as HTMLCanvasElement;
+    expect(canvas.width).toBe(1024);
+    expect(canvas.height).toBe(768);
+    expect(canvas.getContext('2d')!.drawImage).toHaveBeenCalledWith(expect.any(HTMLImageElement), 0, 0, 1024, 768);
+    expect(canvas.toDataURL).toHaveBeenCalledWith('image/jpeg', 0.8);
+    expect(result).toMatch(/^data:image\//);
+  });
+});
@@ -0,0 +1,209 @@
+// --- Image normalization shared by every way a photo enters the app ---
+
+// Resize to max 1024x1024 to prevent large payloads causing RPC errors
+export const MAX_IMAGE_SIZE = 1024;
+// JPEG quality used for compression
+export const JPEG_QUALITY = 0.8;
+
+/**
+ * Scales a width/height pair down (never up) so the longest side fits within maxSize,
+ * preserving the aspect ratio.
+ */
+export const fitWithin = (width: number, height: number, maxSize: number = MAX_IMAGE_SIZE) => {
+  if (width > height) {
+    if (width > maxSize) {
+      height *= maxSize / width;
+      width = maxSize;
+    }
+  } else {
+    if (height > maxSize) {
+      width *= maxSize / height;
+      height = maxSize;
+    }
+  }
+  return { width, height };
+};
+
+/**
+ * Draws any canvas source (image, video frame, canvas) into a resized JPEG data URL.
+ * Returns null if a 2D context is unavailable so callers can fall back to the raw data.
+ */
+export const normalizeToJpeg = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  options: { mirror?: boolean } = {}
+): string | null => {
+  const { width, height } = fitWithin(sourceWidth, sourceHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  if (options.mirror) {
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+  }
+
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+/**
+ * Reads a file and returns it as a resized, JPEG-compressed data URL.
+ */
+export const processImageFile = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const original = event.target?.result as string;
+      const img = new Image();
+      img.onload = () => {
+        resolve(normalizeToJpeg(img, img.width, img.height) ?? original);
+      };
+      img.onerror = (e) => reject(e);
+      img.src = original;
+    };
+    reader.onerror = (e) => reject(e);
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Crops a normalized box out of an image, with some padding, and rotates it by -degrees so a
+ * tilted subject ends up level. Areas rotated in from outside the image are filled white.
+ */
+export const cropAndLevel = (
+  dataUrl: string,
+  box: { x: number; y: number; width: number; height: number },
+  degrees: number,
+  padding: number = 0.08
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const padX = box.width * img.width * padding;
+      const padY = box.height * img.height * padding;
+      const cropWidth = Math.min(img.width, box.width * img.width + padX * 2);
+      const cropHeight = Math.min(img.height, box.height * img.height + padY * 2);
+      const centerX = (box.x + box.width / 2) * img.width;
+      const centerY = (box.y + box.height / 2) * img.height;
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(cropWidth);
+      canvas.height = Math.round(cropHeight);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas is not available in this browser."));
+        return;
+      }
+
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.translate(canvas.width / 2, canvas.height / 2);
+      ctx.rotate((-degrees * Math.PI) / 180);
+      ctx.drawImage(img, -centerX, -centerY);
+
+      resolve(normalizeToJpeg(canvas, canvas.width, canvas.height) ?? canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+    };
+    img.onerror = (e) => reject(e);
+    img.src = dataUrl;
+  });
+};
+
+// --- Comparing images ---
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = (e) => reject(e);
+    img.src = src;
+  });
+};
+
+export const getImageSize = async (src: string) => {
+  const img = await loadImage(src);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+// Thumbnail size for framing comparisons; small enough to ignore noise and fine detail
+const FRAMING_SAMPLE_SIZE = 32;
+
+const toGrayscaleSample = (img: HTMLImageElement): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = FRAMING_SAMPLE_SIZE;
+  canvas.height = FRAMING_SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+
+  ctx.drawImage(img, 0, 0, FRAMING_SAMPLE_SIZE, FRAMING_SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, FRAMING_SAMPLE_SIZE, FRAMING_SAMPLE_SIZE);
+  const gray = new Float32Array(FRAMING_SAMPLE_SIZE * FRAMING_SAMPLE_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114) / 255;
+  }
+  return gray;
+};
+
+/**
+ * Scores how closely two images share the same framing, 0-100. Swapping glasses barely
+ * moves a 32x32 thumbnail; a different crop, zoom or pose moves most of it.
+ */
+export const compareFraming = async (baseSrc: string, resultSrc: string): Promise<number> => {
+  const [base, result] = await Promise.all([loadImage(baseSrc), loadImage(resultSrc)]);
+  const a = toGrayscaleSample(base);
+  const b = toGrayscaleSample(result);
+
+  let totalDifference = 0;
+  for (let i = 0; i < a.length; i++) {
+    totalDifference += Math.abs(a[i] - b[i]);
+  }
+  const meanDifference = totalDifference / a.length;
+  // A mean difference of 0.25 (a quarter of the tonal range) or more scores zero
+  return Math.round(100 * (1 - Math.min(1, meanDifference * 4)));
+};
+
+// --- Data URL / Blob conversion ---
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Loads an image by URL (e.g. a catalog product shot, SVG included) as a normalized JPEG data URL.
+ */
+export const urlToJpegDataUrl = (url: string): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const dataUrl = normalizeToJpeg(img, img.naturalWidth || img.width, img.naturalHeight || img.height);
+      if (dataUrl) {
+        resolve(dataUrl);
+      } else {
+        reject(new Error(`Could not rasterize ${url}`));
+      }
+    };
+    img.onerror = (e) => reject(e);
+    img.src = url;
+  });
+};
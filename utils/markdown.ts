@@ -0,0 +1,89 @@
+// --- Minimal markdown for stylist replies ---
+// Parses to tokens that render as React elements, so nothing from the model is ever
+// injected as HTML. Covers what the stylist writes: paragraphs, headings, lists, bold,
+// italics, inline code, http(s) links and [n] citation markers.
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineToken[] }
+  | { type: 'em'; children: InlineToken[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineToken[] }
+  | { type: 'citation'; index: number }; // 1-based, into the message's grounding URLs
+
+export type Block =
+  | { type: 'paragraph'; lines: InlineToken[][] }
+  | { type: 'heading'; level: number; content: InlineToken[] }
+  | { type: 'list'; ordered: boolean; items: InlineToken[][] };
+
+// Groups: 2 strong text, 3 code, 4 link text, 5 link url, 6 citation number, 7 em text
+const INLINE_PATTERN = /(\*\*|__)(.+?)\1|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|\[(\d{1,2})\]|\*([^*\s][^*]*?)\*/;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+export const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      tokens.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) tokens.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    const [whole, , strong, code, linkText, href, citation, em] = match;
+    if (strong !== undefined) tokens.push({ type: 'strong', children: parseInline(strong) });
+    else if (code !== undefined) tokens.push({ type: 'code', text: code });
+    else if (href !== undefined) tokens.push({ type: 'link', href, children: parseInline(linkText) });
+    else if (citation !== undefined) tokens.push({ type: 'citation', index: Number(citation) });
+    else if (em !== undefined) tokens.push({ type: 'em', children: parseInline(em) });
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return tokens;
+};
+
+export const parseMarkdown = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', lines: paragraph.map(parseInline) });
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  };
+
+  text.split('\n').forEach(line => {
+    const heading = HEADING_PATTERN.exec(line);
+    const bullet = BULLET_PATTERN.exec(line);
+    const ordered = ORDERED_PATTERN.exec(line);
+
+    if (!line.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+    } else if (bullet || ordered) {
+      const isOrdered = !bullet;
+      if (paragraph.length > 0 || (list && list.ordered !== isOrdered)) flush();
+      list = list ?? { ordered: isOrdered, items: [] };
+      list.items.push((bullet ?? ordered)![1]);
+    } else if (list && /^\s+/.test(line)) {
+      // Indented continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  });
+  flush();
+
+  return blocks;
+};
@@ -0,0 +1,69 @@
+// --- Masks for region edits ---
+// A mask is a canvas whose painted pixels are opaque and everything else transparent.
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = (e) => reject(e);
+    img.src = src;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  return { canvas, ctx };
+};
+
+export const isMaskEmpty = (mask: HTMLCanvasElement) => {
+  const ctx = mask.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * Renders the mask the way image models expect it: white where to edit, black elsewhere.
+ */
+export const maskToBlackAndWhite = (mask: HTMLCanvasElement): string => {
+  const white = createCanvas(mask.width, mask.height);
+  white.ctx.drawImage(mask, 0, 0);
+  white.ctx.globalCompositeOperation = 'source-in';
+  white.ctx.fillStyle = '#ffffff';
+  white.ctx.fillRect(0, 0, mask.width, mask.height);
+
+  const result = createCanvas(mask.width, mask.height);
+  result.ctx.fillStyle = '#000000';
+  result.ctx.fillRect(0, 0, mask.width, mask.height);
+  result.ctx.drawImage(white.canvas, 0, 0);
+  return result.canvas.toDataURL('image/png');
+};
+
+/**
+ * Composites the edited image over the original only where the mask is painted. Pixels
+ * outside the mask come straight from the original, so the result is a lossless PNG at the
+ * original's size.
+ */
+export const blendMasked = async (originalUrl: string, editedUrl: string, mask: HTMLCanvasElement): Promise<string> => {
+  const [original, edited] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // The model may answer at a different resolution; scale its output onto the original
+  const patch = createCanvas(width, height);
+  patch.ctx.drawImage(edited, 0, 0, width, height);
+  patch.ctx.globalCompositeOperation = 'destination-in';
+  patch.ctx.drawImage(mask, 0, 0, width, height);
+
+  const result = createCanvas(width, height);
+  result.ctx.drawImage(original, 0, 0);
+  result.ctx.drawImage(patch.canvas, 0, 0);
+  return result.canvas.toDataURL('image/png');
+};
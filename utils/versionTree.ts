@@ -0,0 +1,42 @@
+import { LookVersion } from '../types';
+
+// --- Look version tree helpers ---
+
+export const createVersion = (
+  image: string,
+  prompt: string,
+  parentId: string | null,
+  referenceImage?: string,
+  frameSku?: string
+): LookVersion => ({
+  id: crypto.randomUUID(),
+  parentId,
+  image,
+  prompt,
+  referenceImage,
+  frameSku,
+  createdAt: Date.now()
+});
+
+/**
+ * Returns the chain of versions from the root down to (and including) the given version.
+ */
+export const getLineage = (versions: LookVersion[], id: string | null): LookVersion[] => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const lineage: LookVersion[] = [];
+  let current = id ? byId.get(id) : undefined;
+  while (current) {
+    lineage.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return lineage;
+};
+
+/**
+ * Short display label for a version ("v3"), numbered by creation order.
+ */
+export const getVersionLabel = (versions: LookVersion[], id: string | null): string => {
+  if (!id) return 'Original';
+  const index = versions.findIndex(v => v.id === id);
+  return index === -1 ? 'Original' : `v${index + 1}`;
+};
@@ -0,0 +1,85 @@
+import { normalizeToJpeg } from './imageUtils';
+
+// --- Pulling still frames out of a short video clip ---
+
+export interface VideoFrameSample {
+  timeSec: number;
+  image: string; // Normalized JPEG data URL
+}
+
+const waitForEvent = (target: HTMLMediaElement, event: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(target.error ?? new Error(`Video failed while waiting for ${event}.`)); };
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+/**
+ * Duration of a loaded video. Recordings from MediaRecorder report Infinity until the
+ * browser has scanned to the end, so seek far past it once to make it compute the real one.
+ */
+const resolveDuration = async (video: HTMLVideoElement): Promise<number> => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  await seeked;
+  return video.duration;
+};
+
+export const getVideoDuration = async (clip: Blob): Promise<number> => {
+  const url = URL.createObjectURL(clip);
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.muted = true;
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    return await resolveDuration(video);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Takes `count` evenly spaced frames across the clip, skipping the very first and last
+ * instants where recordings are often black or blurred.
+ */
+export const sampleVideoFrames = async (
+  clip: Blob,
+  count: number,
+  options: { mirror?: boolean } = {}
+): Promise<VideoFrameSample[]> => {
+  const url = URL.createObjectURL(clip);
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    const duration = await resolveDuration(video);
+
+    const samples: VideoFrameSample[] = [];
+    for (let i = 0; i < count; i++) {
+      const timeSec = (duration * (i + 0.5)) / count;
+      const seeked = waitForEvent(video, 'seeked');
+      video.currentTime = timeSec;
+      await seeked;
+
+      const image = normalizeToJpeg(video, video.videoWidth, video.videoHeight, options);
+      if (!image) throw new Error("Canvas is not available in this browser.");
+      samples.push({ timeSec, image });
+    }
+    return samples;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { clampViewport, DEFAULT_VIEWPORT, MAX_ZOOM, panViewport, zoomViewportAt } from './viewport';
+
+describe('viewport', () => {
+  it('keeps the point under the focus in place while zooming', () => {
+    const zoomed = zoomViewportAt(DEFAULT_VIEWPORT, 2, { x: 0.25, y: -0.25 });
+    expect(zoomed).toEqual({ zoom: 2, x: -0.25, y: 0.25 });
+    // The focus maps back to the same image point: (focus - offset) / zoom
+    expect((0.25 - zoomed.x) / zoomed.zoom).toBe(0.25);
+  });
+
+  it('never zooms out past fit or in past the maximum', () => {
+    expect(zoomViewportAt(DEFAULT_VIEWPORT, 0.5).zoom).toBe(1);
+    expect(zoomViewportAt({ zoom: 4, x: 0, y: 0 }, 10).zoom).toBe(MAX_ZOOM);
+  });
+
+  it('stops panning at the image edges', () => {
+    expect(panViewport({ zoom: 2, x: 0, y: 0 }, 0.4, -0.8)).toEqual({ zoom: 2, x: 0.4, y: -0.5 });
+    expect(panViewport(DEFAULT_VIEWPORT, 0.3, 0.3)).toEqual(DEFAULT_VIEWPORT);
+  });
+
+  it('re-centers when zooming back out to fit', () => {
+    expect(clampViewport({ zoom: 0.5, x: 0.3, y: -0.3 })).toEqual(DEFAULT_VIEWPORT);
+  });
+});
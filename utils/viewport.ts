@@ -0,0 +1,52 @@
+// --- Zoom & pan math for inspecting images ---
+// A viewport is a zoom factor plus an offset of the image center, as a fraction of the pane
+// size. Keeping it relative means one viewport can drive panes of different sizes in sync.
+
+export const MAX_ZOOM = 6;
+
+export interface Viewport {
+  zoom: number; // 1 = fit
+  x: number; // Offset of the image center, as a fraction of the pane width
+  y: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { zoom: 1, x: 0, y: 0 };
+
+/**
+ * Keeps the zoom within 1..MAX_ZOOM and the offset small enough that the image always
+ * covers the pane.
+ */
+export const clampViewport = ({ zoom, x, y }: Viewport): Viewport => {
+  const clampedZoom = Math.min(MAX_ZOOM, Math.max(1, zoom));
+  const maxOffset = (clampedZoom - 1) / 2;
+  // + 0 turns a clamped -0 into 0
+  const clamp = (value: number) => Math.min(maxOffset, Math.max(-maxOffset, value)) + 0;
+  return { zoom: clampedZoom, x: clamp(x), y: clamp(y) };
+};
+
+/**
+ * Zooms by `factor` while keeping the image point under `focus` where it is. `focus` is
+ * relative to the pane center, as a fraction of the pane size (-0.5..0.5).
+ */
+export const zoomViewportAt = (viewport: Viewport, factor: number, focus: { x: number; y: number } = { x: 0, y: 0 }): Viewport => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, viewport.zoom * factor));
+  const scale = zoom / viewport.zoom;
+  return clampViewport({
+    zoom,
+    x: focus.x - (focus.x - viewport.x) * scale,
+    y: focus.y - (focus.y - viewport.y) * scale
+  });
+};
+
+/**
+ * Moves the image by a drag of (dx, dy), given as fractions of the pane size.
+ */
+export const panViewport = (viewport: Viewport, dx: number, dy: number): Viewport =>
+  clampViewport({ ...viewport, x: viewport.x + dx, y: viewport.y + dy });
+
+/**
+ * CSS transform for an image filling its pane. Translate percentages are of the unscaled
+ * image, which is the pane size.
+ */
+export const toTransform = ({ zoom, x, y }: Viewport) =>
+  `translate(${x * 100}%, ${y * 100}%) scale(${zoom})`;